@@ -5,6 +5,22 @@ import chalk from "chalk";
 import { setupApiKey } from "./src/config/api";
 import { runGenerativeGitFlow } from "./src/commands/ai";
 import { runManualCommit, runAutoCommit } from "./src/commands/commit";
+import { runSplitCommit } from "./src/commands/split";
+import { runServe } from "./src/commands/serve";
+import { runHistory, runUndo } from "./src/commands/history";
+import { runPrDescribe } from "./src/commands/pr";
+import { runChangelog, runRelease } from "./src/commands/changelog";
+import { runResolve } from "./src/commands/resolve";
+import { runReview } from "./src/commands/review";
+import { runChat, runChatList } from "./src/commands/chat";
+import {
+  runConfigGet,
+  runConfigList,
+  runConfigReset,
+  runConfigSet,
+  runConfigShow,
+  runConfigUnset,
+} from "./src/commands/config";
 
 function createCli() {
   const cli = new Command();
@@ -19,11 +35,15 @@ function createCli() {
         chalk.cyan("Examples:\n") +
         '  $ gfts "commit all my recent changes with a good message"\n' +
         '  $ gfts commit -m "feat: add new authentication system"\n' +
-        "  $ gfts auto-commit\n"
+        "  $ gfts auto-commit\n" +
+        "  $ gfts serve\n"
     )
     .usage("")
     .version("1.0.0", "-v, --version", "Output the current version")
     .option("--dry-run", "Simulate actions without making changes", false)
+    .option("-y, --yes", "Skip confirmation and review prompts", false)
+    .option("--provider <name>", "LLM provider: gemini, openai or mock")
+    .option("--model <name>", "Model to use with the selected provider")
     .addHelpText(
       "after",
       `
@@ -37,25 +57,73 @@ ${chalk.cyan("Documentation:")}
     `
     );
 
-  cli
+  const config = cli
     .command("config")
     .description("Configure GFTS settings")
-    .option("--show", "Show current configuration")
+    .option("--show", "Show the effective configuration, secrets masked")
     .option("--reset", "Reset configuration to defaults")
+    .option("--repo", "Use the repository's .gfts.json instead")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts config --show
+  $ gfts config set model gemini-2.5-flash
+  $ gfts config set --repo protectedBranches '["main"]'
+  $ gfts config unset push.enabled
+    `
+    )
     .action(async (options) => {
       if (options.show) {
+        await runConfigShow();
       } else if (options.reset) {
+        await runConfigReset(options.repo, cli.opts().yes);
       } else {
         await setupApiKey();
       }
     });
 
+  config
+    .command("get <key>")
+    .description("Print an effective setting, e.g. commit.maxHeaderLength")
+    .action(async (key) => {
+      await runConfigGet(key);
+    });
+
+  config
+    .command("set <key> <value>")
+    .description("Set a value; JSON values such as true or [] are parsed")
+    .option("--repo", "Write to the repository's .gfts.json")
+    .action(async (key, value, options) => {
+      await runConfigSet(key, value, options.repo || config.opts().repo);
+    });
+
+  config
+    .command("unset <key>")
+    .description("Remove a setting so its default applies")
+    .option("--repo", "Remove it from the repository's .gfts.json")
+    .action(async (key, options) => {
+      await runConfigUnset(key, options.repo || config.opts().repo);
+    });
+
+  config
+    .command("list")
+    .description("List the settings stored in a settings file")
+    .option("--repo", "List the repository's .gfts.json")
+    .action(async (options) => {
+      await runConfigList(options.repo || config.opts().repo);
+    });
+
   cli
     .command("commit")
     .description("Create a new commit")
     .option("-m, --message <msg>", "Specific commit message")
     .option("-a, --all", "Stage all changes before committing")
+    .option("--paths <globs...>", "Stage only changes matching these globs")
+    .option("-p, --pick", "Choose the files to stage interactively")
+    .option("--push", "Push to the remote after committing")
     .option("--no-push", "Skip pushing to remote")
+    .option("--remote <name>", "Remote to push to")
     .allowExcessArguments(false)
     .addHelpText(
       "after",
@@ -63,6 +131,7 @@ ${chalk.cyan("Documentation:")}
 ${chalk.cyan("Examples:")}
   $ gfts commit -m "feat: add user authentication"
   $ gfts commit -am "fix: resolve login bug"
+  $ gfts commit --paths "src/**" -m "refactor: tidy up src"
   $ gfts commit --no-push -m "chore: update dependencies"
     `
     )
@@ -79,24 +148,236 @@ ${chalk.cyan("Examples:")}
         );
         process.exit(1);
       }
-      await runManualCommit(options.message, cli.opts().dryRun, !options.push);
+      await runManualCommit(
+        options.message,
+        cli.opts().dryRun,
+        options.push === undefined ? undefined : !options.push,
+        {
+          all: options.all,
+          paths: options.paths,
+          pick: options.pick,
+          remote: options.remote,
+          yes: cli.opts().yes,
+        }
+      );
     });
 
   cli
     .command("auto-commit")
     .alias("ac")
     .description("Automatically generate commit message and create commit")
+    .option("-a, --all", "Stage all changes before committing")
+    .option("--paths <globs...>", "Stage only changes matching these globs")
+    .option("-p, --pick", "Choose the files to stage interactively")
+    .option("--push", "Push to the remote after committing")
     .option("--no-push", "Skip pushing to remote")
+    .option("--remote <name>", "Remote to push to")
+    .option("--split", "Split the changes into several logical commits")
+    .option("--review", "Review the changes before committing")
+    .option("--no-review", "Skip the review configured by review.gate")
+    .option("--force", "Commit even if the review finds blocking issues")
     .addHelpText(
       "after",
       `
 ${chalk.cyan("Examples:")}
   $ gfts auto-commit
+  $ gfts ac -a
+  $ gfts ac --split
+  $ gfts ac --review    ${chalk.dim("# block on high-severity findings")}
   $ gfts ac --no-push
+  $ gfts ac --yes       ${chalk.dim("# commit without reviewing the message")}
+    `
+    )
+    .action(async (options) => {
+      const { dryRun, yes, provider, model } = cli.opts();
+      const run = options.split ? runSplitCommit : runAutoCommit;
+      await run(
+        dryRun,
+        options.push === undefined ? undefined : !options.push,
+        {
+          yes,
+          provider,
+          model,
+          all: options.all,
+          paths: options.paths,
+          pick: options.pick,
+          remote: options.remote,
+          review: options.review,
+          force: options.force,
+        }
+      );
+    });
+
+  cli
+    .command("pr-describe")
+    .description("Draft a pull request title and body for the current branch")
+    .option("--base <ref>", "Branch the pull request targets")
+    .option("-o, --output <file>", "Write the Markdown to a file")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts pr-describe
+  $ gfts pr-describe --base develop
+  $ gfts pr-describe -o PR.md
+    `
+    )
+    .action(async (options) => {
+      const { provider, model } = cli.opts();
+      await runPrDescribe({
+        base: options.base,
+        output: options.output,
+        provider,
+        model,
+      });
+    });
+
+  cli
+    .command("changelog")
+    .description("Prepend a changelog section built from Conventional Commits")
+    .option("--from <ref>", "Start of the range (default: latest version tag)")
+    .option("--to <ref>", "End of the range", "HEAD")
+    .option("--title <heading>", "Section heading (default: the next version)")
+    .option("-o, --output <file>", "Changelog file to prepend to")
+    .option("--stdout", "Print the section instead of writing it")
+    .option("--ai-polish", "Rewrite the entries as user-facing release notes")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts changelog
+  $ gfts changelog --from v1.0.0 --to v1.1.0
+  $ gfts changelog --ai-polish --stdout
+    `
+    )
+    .action(async (options) => {
+      const { dryRun, provider, model } = cli.opts();
+      await runChangelog(dryRun, { ...options, provider, model });
+    });
+
+  cli
+    .command("release")
+    .description("Tag the next semantic version with release notes")
+    .option(
+      "--release-as <level>",
+      "Force major, minor, patch or an exact version"
+    )
+    .option("--changelog", "Also prepend the notes to the changelog and commit")
+    .option("--ai-polish", "Rewrite the notes as user-facing release notes")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts release
+  $ gfts release --changelog
+  $ gfts release --release-as minor
+  $ gfts --dry-run release
+    `
+    )
+    .action(async (options) => {
+      const { dryRun, yes, provider, model } = cli.opts();
+      await runRelease(dryRun, { ...options, yes, provider, model });
+    });
+
+  cli
+    .command("resolve")
+    .description("Resolve merge or rebase conflicts hunk by hunk with the model")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts resolve
+  $ gfts --dry-run resolve   ${chalk.dim("# show the proposals only")}
+    `
+    )
+    .action(async () => {
+      const { dryRun, provider, model } = cli.opts();
+      await runResolve(dryRun, { provider, model });
+    });
+
+  cli
+    .command("review")
+    .description("Review staged changes or a branch and report findings")
+    .option("--staged", "Review the staged changes (default)")
+    .option("--base <ref>", "Review the branch's changes since this ref")
+    .option("--format <format>", "Output format: text, json or sarif", "text")
+    .option("-o, --output <file>", "Write the JSON or SARIF report to a file")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts review
+  $ gfts review --base main
+  $ gfts review --format sarif -o review.sarif
+    `
+    )
+    .action(async (options) => {
+      const { provider, model } = cli.opts();
+      await runReview({ ...options, provider, model });
+    });
+
+  cli
+    .command("chat")
+    .description("Start an interactive assist session that remembers context")
+    .option("--resume [id]", "Continue a saved chat (default: the latest here)")
+    .option("--list", "List saved chats")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts chat
+  $ gfts chat --resume
+  $ gfts chat --list
+    `
+    )
+    .action(async (options) => {
+      if (options.list) {
+        runChatList();
+        return;
+      }
+      const { dryRun, yes, provider, model } = cli.opts();
+      await runChat(dryRun, { resume: options.resume, yes, provider, model });
+    });
+
+  cli
+    .command("serve")
+    .description("Run the GFTS tools as an MCP server over stdio")
+    .option("-C, --cwd <dir>", "Project directory the tools are sandboxed to")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts serve
+  $ gfts serve --cwd ./my-project
+  $ gfts --yes serve    ${chalk.dim("# allow destructive calls")}
     `
     )
     .action(async (options) => {
-      await runAutoCommit(cli.opts().dryRun, !options.push);
+      await runServe(options.cwd ?? process.cwd(), { yes: cli.opts().yes });
+    });
+
+  cli
+    .command("history")
+    .description("List past assist sessions and the actions they performed")
+    .option("-n, --limit <count>", "Number of sessions to show", "10")
+    .action(async (options) => {
+      await runHistory(Number(options.limit));
+    });
+
+  cli
+    .command("undo [session-id]")
+    .description("Revert the file and ref changes made by an assist session")
+    .addHelpText(
+      "after",
+      `
+${chalk.cyan("Examples:")}
+  $ gfts undo
+  $ gfts undo 20261018-141442-a1b2
+  $ gfts --yes undo
+    `
+    )
+    .action(async (sessionId) => {
+      await runUndo(sessionId, cli.opts().yes);
     });
 
     cli
@@ -119,7 +400,12 @@ ${chalk.cyan("Examples:")}
         
         const dryRun = cli.opts().dryRun ?? false;
 
-        await runGenerativeGitFlow(instruction, dryRun);
+        const { yes, provider, model } = cli.opts();
+        await runGenerativeGitFlow(instruction, dryRun, {
+          yes,
+          provider,
+          model,
+        });
       });
   return cli;
 }
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { CHATS_DIR } from "../config/paths";
+import { newSessionId } from "../journal";
+import type { ChatMessage } from "../providers";
+
+export interface ChatTranscript {
+  id: string;
+  cwd: string;
+  startedAt: string;
+  updatedAt: string;
+  /** First user message, shown when listing transcripts. */
+  title: string;
+  dryRun: boolean;
+  messages: ChatMessage[];
+}
+
+function transcriptFile(id: string): string {
+  return path.join(CHATS_DIR, `${id}.json`);
+}
+
+export function newTranscript(cwd: string = process.cwd()): ChatTranscript {
+  const now = new Date().toISOString();
+  return {
+    id: newSessionId(),
+    cwd: path.resolve(cwd),
+    startedAt: now,
+    updatedAt: now,
+    title: "",
+    dryRun: false,
+    messages: [],
+  };
+}
+
+/**
+ * Writes a transcript to disk. Empty conversations are not kept, so saving
+ * a cleared one removes its file.
+ */
+export function saveTranscript(transcript: ChatTranscript) {
+  if (!transcript.messages.length) {
+    fs.rmSync(transcriptFile(transcript.id), { force: true });
+    return;
+  }
+  transcript.updatedAt = new Date().toISOString();
+  fs.mkdirSync(CHATS_DIR, { recursive: true });
+  fs.writeFileSync(
+    transcriptFile(transcript.id),
+    JSON.stringify(transcript, null, 2),
+    "utf-8"
+  );
+}
+
+export function loadTranscript(id: string): ChatTranscript | null {
+  try {
+    return JSON.parse(fs.readFileSync(transcriptFile(id), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists saved transcripts, most recently updated first, optionally only
+ * those started in `cwd`.
+ */
+export function listTranscripts(cwd?: string): ChatTranscript[] {
+  if (!fs.existsSync(CHATS_DIR)) return [];
+  const root = cwd && path.resolve(cwd);
+  return fs
+    .readdirSync(CHATS_DIR)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => loadTranscript(name.replace(/\.json$/, "")))
+    .filter((t): t is ChatTranscript => t !== null)
+    .filter((t) => !root || t.cwd === root)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
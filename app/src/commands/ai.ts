@@ -2,66 +2,153 @@ import chalk from "chalk";
 import ora from "ora";
 import MCPClient from "../mcp/client";
 import { EMOJI, formatError, printDivider } from "./utils";
-import { GoogleGenAI } from "@google/genai";
-import { getApiKey } from "../config/api";
+import { loadSettings, type Settings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import { gatherRepoContext } from "../context";
+import { PolicyEngine } from "../policy";
+import { formatDryRunPlan } from "../server/dry-run";
+import { SessionJournal } from "../journal";
+import type { ToolResult } from "../server";
+import { isToolError } from "../tools/handlers";
+import {
+  createProvider,
+  type ChatMessage,
+  type LLMProvider,
+  type ProviderOptions,
+  type ToolCall,
+  type ToolCallResult,
+} from "../providers";
+
+const MAX_TURNS = 20;
+
+function toFunctionResponse(result: ToolResult): Record<string, unknown> {
+  return isToolError(result) ? { error: result } : { output: result };
+}
 
-const apiKey = await getApiKey();
-const genai = new GoogleGenAI({ apiKey });
+function formatCall(call: ToolCall): string {
+  return `${call.name}(${JSON.stringify(call.args)})`;
+}
 
-async function processWithGemini(
-  query: string,
-  dryRun = false
-): Promise<string> {
-  const genSpinner = ora({
-    text: `🔹 Processing instruction with Gemini...`,
-    color: "blue",
-  }).start();
+/**
+ * The assist system prompt with a fresh snapshot of the repository. A
+ * custom template without a {{repoContext}} placeholder gets it appended.
+ */
+export function assistSystemPrompt(settings: Settings, dryRun: boolean) {
+  const repoContext = gatherRepoContext(settings.context);
+  const prompt = buildPrompt(settings, "assist", {
+    cwd: process.cwd(),
+    dryRunMode: dryRun
+      ? "on: changes are simulated in memory and shown to the user as a plan; later reads see earlier simulated writes."
+      : "off: tool calls apply changes directly.",
+    repoContext,
+  });
+  return prompt.includes(repoContext)
+    ? prompt
+    : `${prompt}\n\nRepository state:\n${repoContext}`;
+}
 
-  const instruction = `You are GFTS, an AI assistant for git and file system operations in a Node/Bun project.
-You are operating in the directory: ${process.cwd()}.
-User instruction: ${query}.
-
-Rules:
-- Execute the task directly; no explanations or reasoning.
-- Generate instructions using Node.js/Bun-compatible commands (fs, path, child_process) or git commands.
-- Handle file operations: create, read, write, append, move, delete.
-- Handle directory operations: create, delete, list, tree.
-- For git: create branches, commit, push, stash, or list branches.
-- Respect dry-run mode: ${
-    dryRun
-      ? "simulate changes; do not modify any files or git state."
-      : "apply all changes directly."
-  }`;
+export interface AgentTurnOptions {
+  system: string;
+  provider: LLMProvider;
+  mcpClient: MCPClient;
+  dryRun?: boolean;
+  /** Streams the model's text to the terminal instead of returning it only. */
+  stream?: boolean;
+}
 
-  try {
-    const response = await genai.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        {
-          parts: [{ text: instruction }],
-          role: "user",
-        },
-      ],
-    });
+/**
+ * Lets the model work on the conversation until it stops calling tools.
+ * Every model reply and tool result is appended to `messages`, so a caller
+ * keeping the array keeps the conversation. Returns the final reply.
+ */
+export async function runAgentTurns(
+  messages: ChatMessage[],
+  { system, provider, mcpClient, dryRun = false, stream }: AgentTurnOptions
+): Promise<string> {
+  const tools = mcpClient.listTools();
+
+  for (let turn = 0; turn < MAX_TURNS; turn++) {
+    const genSpinner = ora({
+      text: `🔹 Processing instruction with ${provider.name} (${provider.model})...`,
+      color: "blue",
+    }).start();
 
-    const generatedText = response?.candidates?.[0]?.content?.parts?.[0]?.text;
+    // The spinner gives way to the text as soon as it starts streaming.
+    let streamed = false;
+    const onText = stream
+      ? (chunk: string) => {
+          if (!streamed) genSpinner.stop();
+          streamed = true;
+          process.stdout.write(chunk);
+        }
+      : undefined;
+
+    let response;
+    try {
+      response = await provider.generate({ system, messages, tools, onText });
+    } catch (err) {
+      genSpinner.fail(chalk.red(`${provider.name} processing failed`));
+      throw err;
+    }
+    if (streamed) process.stdout.write("\n");
+
+    const { toolCalls } = response;
+    if (!toolCalls.length) {
+      if (!streamed) {
+        genSpinner.succeed(
+          chalk.green(`✅ ${provider.name} processed instruction`)
+        );
+      }
+      const reply = response.text.trim() || "Done.";
+      messages.push({ role: "assistant", text: reply });
+      return reply;
+    }
 
-    if (!generatedText) {
-      genSpinner.fail(chalk.red("Failed to generate structured instruction"));
-      throw new Error("Gemini did not return any content");
+    if (!streamed) {
+      genSpinner.succeed(
+        chalk.green(
+          `✅ ${provider.name} requested ${toolCalls.length} tool call(s)`
+        )
+      );
+    }
+    messages.push({ role: "assistant", text: response.text, toolCalls });
+
+    const results: ToolCallResult[] = [];
+    for (const call of toolCalls) {
+      console.log(chalk.cyan(`${EMOJI.ROBOT} ${formatCall(call)}`));
+
+      let payload: Record<string, unknown>;
+      try {
+        const result = await mcpClient.callTool(call.name, call.args, dryRun);
+        payload = toFunctionResponse(result);
+      } catch (err) {
+        payload = { error: formatError(err) };
+      }
+
+      if ("error" in payload) {
+        console.log(chalk.yellow(`  ⚠️  ${call.name} failed`));
+      } else {
+        console.log(chalk.green(`  ${EMOJI.SUCCESS} ${call.name}`));
+      }
+
+      results.push({ id: call.id, name: call.name, response: payload });
     }
 
-    genSpinner.succeed(chalk.green("✅ Gemini processed instruction"));
-    return generatedText.trim();
-  } catch (err) {
-    genSpinner.fail(chalk.red("Gemini processing failed"));
-    throw err;
+    messages.push({ role: "tool", results });
   }
+
+  throw new Error(`${provider.name} did not finish within ${MAX_TURNS} turns`);
+}
+
+export interface GenerativeFlowOptions extends ProviderOptions {
+  /** Approve destructive tool calls without prompting. */
+  yes?: boolean;
 }
 
 export async function runGenerativeGitFlow(
   naturalInstruction: string,
-  dryRun = false
+  dryRun = false,
+  options: GenerativeFlowOptions = {}
 ) {
   printDivider();
   console.log(chalk.bold.cyan(`${EMOJI.ROBOT} AI Assistant`));
@@ -73,42 +160,64 @@ export async function runGenerativeGitFlow(
     color: "blue",
   }).start();
 
-  const mcpClient = new MCPClient();
+  let journal: SessionJournal | undefined;
+  let mcpClient: MCPClient | undefined;
 
   try {
+    const settings = await loadSettings();
+    journal = dryRun
+      ? undefined
+      : new SessionJournal(naturalInstruction, process.cwd());
+    mcpClient = new MCPClient(process.cwd(), {
+      externalServers: settings.mcpServers,
+      policy: new PolicyEngine(settings.policy.rules, {
+        autoApprove: options.yes,
+        cwd: process.cwd(),
+      }),
+      journal,
+    });
     await mcpClient.connect();
     initSpinner.succeed(chalk.green(`${EMOJI.SUCCESS} MCP Client ready`));
     printDivider();
 
-    const structuredInstruction = await processWithGemini(
-      naturalInstruction,
-      dryRun
-    );
-
-    const executeSpinner = ora({
-      text: chalk.cyan(`${EMOJI.ROBOT} Executing instruction`),
-      color: "blue",
-    }).start();
-
-    let toolOutput: any = await mcpClient.callTool(
-      structuredInstruction,
-      dryRun
-    );
-
-    executeSpinner.succeed(
-      chalk.green(`${EMOJI.SUCCESS} Instruction processed`)
+    const provider = await createProvider(settings, options);
+    const summary = await runAgentTurns(
+      [{ role: "user", text: naturalInstruction }],
+      {
+        system: assistSystemPrompt(settings, dryRun),
+        provider,
+        mcpClient,
+        dryRun,
+      }
     );
 
     console.log(chalk.dim("\nOutput:"));
-    console.log(chalk.gray(toolOutput));
+    console.log(chalk.gray(summary));
     printDivider();
 
+    if (dryRun) {
+      console.log(chalk.bold.magenta("Planned changes (dry run):\n"));
+      console.log(formatDryRunPlan(mcpClient.getDryRunPlan()));
+      printDivider();
+    }
+
     console.log(chalk.bold.green("🎉 Task completed!"));
   } catch (error) {
+    if (initSpinner.isSpinning) {
+      initSpinner.fail(chalk.red("Failed to initialize the MCP client"));
+    }
     console.error(chalk.red(`\n${EMOJI.ERROR} Operation failed:`));
     console.error(chalk.red(formatError(error)));
     throw error;
   } finally {
-    await mcpClient.cleanup();
+    if (journal?.record.actions.length) {
+      journal.finish();
+      console.log(
+        chalk.dim(
+          `Session ${journal.id} journaled. Revert it with: gfts undo ${journal.id}`
+        )
+      );
+    }
+    await mcpClient?.cleanup();
   }
 }
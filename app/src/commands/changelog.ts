@@ -0,0 +1,262 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import ora from "ora";
+import { loadSettings, type Settings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import { createProvider, type ProviderOptions } from "../providers";
+import { runGit, runGitChecked, type GitResult } from "../server/git";
+import {
+  bumpVersion,
+  collectEntries,
+  formatVersion,
+  latestVersionTag,
+  parseVersion,
+  prependChangelog,
+  releaseType,
+  renderChangelogBody,
+  renderChangelogSection,
+  type ChangelogEntry,
+  type ReleaseType,
+} from "../commit/changelog";
+import { EMOJI, printDivider } from "./utils";
+
+function git(args: string[], input?: string): GitResult {
+  return runGitChecked(args, { cwd: process.cwd(), input });
+}
+
+export interface ChangelogOptions extends ProviderOptions {
+  /** Start of the range; defaults to the latest version tag. */
+  from?: string;
+  /** End of the range; defaults to HEAD. */
+  to?: string;
+  /** Section heading; defaults to `to` when it is a tag, else the next version. */
+  title?: string;
+  /** File to prepend to; defaults to `release.changelogFile`. */
+  output?: string;
+  /** Print the section instead of writing it. */
+  stdout?: boolean;
+  aiPolish?: boolean;
+}
+
+export interface ReleaseOptions extends ProviderOptions {
+  /** Force a bump level or an exact version instead of deriving it. */
+  releaseAs?: string;
+  /** Also prepend the notes to the changelog file and commit it. */
+  changelog?: boolean;
+  aiPolish?: boolean;
+  yes?: boolean;
+}
+
+/** Rewrites a changelog body into user-facing release notes. */
+async function polishNotes(
+  body: string,
+  version: string,
+  settings: Settings,
+  options: ProviderOptions
+): Promise<string> {
+  const provider = await createProvider(settings, options);
+  const spinner = ora({
+    text: `${EMOJI.THINKING} Polishing the release notes`,
+    color: "blue",
+  }).start();
+  const response = await provider
+    .generate({
+      messages: [
+        {
+          role: "user",
+          text: buildPrompt(settings, "releaseNotes", {
+            version,
+            changelog: body,
+          }),
+        },
+      ],
+    })
+    .catch((err) => {
+      spinner.fail(chalk.red("Failed to polish the release notes"));
+      throw err;
+    });
+  const notes = response.text
+    .trim()
+    .replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, "$1")
+    .trim();
+  if (!notes) {
+    spinner.fail(chalk.red("Failed to polish the release notes"));
+    throw new Error("The model returned empty release notes");
+  }
+  spinner.succeed(chalk.green(`${EMOJI.SUCCESS} Polished the release notes`));
+  return notes;
+}
+
+function nextVersion(
+  entries: ChangelogEntry[],
+  latest: string | undefined,
+  prefix: string,
+  releaseAs?: string
+): string {
+  const current = latest ? parseVersion(latest, prefix) : null;
+  if (releaseAs && !["major", "minor", "patch"].includes(releaseAs)) {
+    const exact =
+      parseVersion(releaseAs, prefix) ?? parseVersion(releaseAs, "");
+    if (!exact) throw new Error(`'${releaseAs}' is not a semantic version`);
+    return formatVersion(exact, prefix);
+  }
+  const type = (releaseAs as ReleaseType) ?? releaseType(entries, current);
+  return formatVersion(bumpVersion(current, type), prefix);
+}
+
+/**
+ * `gfts changelog`: groups the Conventional Commits in a range by type and
+ * scope and prepends them to the changelog as a new section.
+ */
+export async function runChangelog(
+  dryRun = false,
+  options: ChangelogOptions = {}
+) {
+  const settings = await loadSettings();
+  const { tagPrefix, changelogFile } = settings.release;
+  const to = options.to ?? "HEAD";
+  const latest = latestVersionTag(tagPrefix, to);
+  const from = options.from ?? latest;
+  const entries = collectEntries(from, to);
+  const toStdout = options.stdout || dryRun;
+
+  if (!entries.length) {
+    console.error(chalk.yellow(`No commits since ${from ?? "the start"}`));
+    return;
+  }
+
+  const isTag =
+    runGit(["rev-parse", "--verify", "--quiet", `refs/tags/${to}`], {
+      cwd: process.cwd(),
+    }).return_code === 0;
+  const title =
+    options.title ?? (isTag ? to : nextVersion(entries, latest, tagPrefix));
+
+  let body = renderChangelogBody(entries);
+  if (options.aiPolish) {
+    body = await polishNotes(body, title, settings, options);
+  }
+  const section = renderChangelogSection(title, body);
+
+  if (toStdout) {
+    process.stdout.write(section);
+    if (dryRun) {
+      console.error(
+        chalk.magenta(
+          `Dry run completed - ${
+            options.output ?? changelogFile
+          } was not changed`
+        )
+      );
+    }
+    return;
+  }
+
+  const file = options.output ?? changelogFile;
+  prependChangelog(file, section);
+  console.log(
+    chalk.green(
+      `${EMOJI.SUCCESS} Added ${title} (${entries.length} commit(s)) to ${file}`
+    )
+  );
+}
+
+/**
+ * `gfts release`: derives the next version from the commits since the last
+ * version tag and creates an annotated tag carrying the release notes.
+ */
+export async function runRelease(dryRun = false, options: ReleaseOptions = {}) {
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.PUSH} Release`));
+
+  try {
+    const settings = await loadSettings();
+    const { tagPrefix, changelogFile } = settings.release;
+    const latest = latestVersionTag(tagPrefix);
+    const entries = collectEntries(latest, "HEAD");
+    if (!entries.length) {
+      console.log(
+        chalk.yellow(`Nothing to release: no commits since ${latest}`)
+      );
+      return;
+    }
+
+    const version = nextVersion(entries, latest, tagPrefix, options.releaseAs);
+    if (
+      runGit(["rev-parse", "--verify", "--quiet", `refs/tags/${version}`], {
+        cwd: process.cwd(),
+      }).return_code === 0
+    ) {
+      throw new Error(`Tag ${version} already exists`);
+    }
+
+    let body = renderChangelogBody(entries);
+    if (options.aiPolish) {
+      body = await polishNotes(body, version, settings, options);
+    }
+
+    console.log(
+      `${chalk.bold(latest ?? "(no release yet)")} → ${chalk.greenBright(
+        version
+      )} ${chalk.dim(`(${entries.length} commit(s))`)}`
+    );
+    printDivider();
+    console.log(body);
+    printDivider();
+
+    const steps = options.changelog
+      ? [
+          `update ${changelogFile}`,
+          `git commit -m "chore(release): ${version}"`,
+          `git tag -a ${version}`,
+        ]
+      : [`git tag -a ${version}`];
+    if (dryRun) {
+      for (const step of steps) console.log(chalk.cyan(`Would: ${step}`));
+      console.log(chalk.magenta("Dry run completed - no tag was created"));
+      return;
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          "Confirming the release needs a terminal; re-run with --yes to tag it"
+        );
+      }
+      const { proceed } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "proceed",
+          message: `Release ${version}?`,
+          default: true,
+        },
+      ]);
+      if (!proceed) {
+        console.log(chalk.yellow("Release aborted"));
+        return;
+      }
+    }
+
+    if (options.changelog) {
+      prependChangelog(changelogFile, renderChangelogSection(version, body));
+      git(["add", "--", changelogFile]);
+      git(
+        ["commit", "-q", "-F", "-", "--", changelogFile],
+        `chore(release): ${version}`
+      );
+    }
+    // Verbatim, so the Markdown headings are not stripped as comments.
+    git(
+      ["tag", "-a", "--cleanup=verbatim", "-F", "-", version],
+      `${version}\n\n${body}\n`
+    );
+
+    console.log(chalk.green(`${EMOJI.SUCCESS} Tagged ${version}`));
+    console.log(
+      chalk.dim(`Publish it with: git push ${settings.push.remote} ${version}`)
+    );
+  } catch (error) {
+    console.error(chalk.red(`\n${EMOJI.ERROR} Release failed:`));
+    throw error;
+  }
+}
@@ -0,0 +1,307 @@
+import readline from "readline";
+import chalk from "chalk";
+import ora from "ora";
+import MCPClient from "../mcp/client";
+import { loadSettings } from "../config/settings";
+import { PolicyEngine } from "../policy";
+import { SessionJournal } from "../journal";
+import { createProvider } from "../providers";
+import { colorDiff, formatDryRunPlan } from "../server/dry-run";
+import { runGit } from "../server/git";
+import {
+  listTranscripts,
+  loadTranscript,
+  newTranscript,
+  saveTranscript,
+  type ChatTranscript,
+} from "../chat";
+import {
+  assistSystemPrompt,
+  runAgentTurns,
+  type GenerativeFlowOptions,
+} from "./ai";
+import { EMOJI, formatError, printDivider } from "./utils";
+
+export interface ChatOptions extends GenerativeFlowOptions {
+  /** Transcript id to continue, or true for the latest one in this directory. */
+  resume?: string | boolean;
+}
+
+const SLASH_COMMANDS: [string, string][] = [
+  ["/status", "Show the working tree status"],
+  ["/diff", "Show uncommitted changes"],
+  ["/tools", "List the tools the model can call"],
+  ["/dry-run on|off", "Simulate changes instead of applying them"],
+  ["/clear", "Forget the conversation so far"],
+  ["/help", "Show these commands"],
+  ["/exit", "Save the transcript and leave"],
+];
+
+/**
+ * Reads one line with its own readline interface, closed again before the
+ * model runs so confirmation prompts get the terminal to themselves.
+ * Resolves null on Ctrl-C or Ctrl-D.
+ */
+function ask(prompt: string, history: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: true,
+      history: [...history],
+      historySize: 200,
+      removeHistoryDuplicates: true,
+    });
+    let answered = false;
+    rl.on("SIGINT", () => rl.close());
+    rl.on("close", () => {
+      if (!answered) {
+        process.stdout.write("\n");
+        resolve(null);
+      }
+    });
+    rl.question(prompt, (line) => {
+      answered = true;
+      if (line.trim()) {
+        history.splice(
+          0,
+          history.length,
+          line,
+          ...history.filter((h) => h !== line)
+        );
+      }
+      rl.close();
+      resolve(line);
+    });
+  });
+}
+
+function printRecap(transcript: ChatTranscript) {
+  const exchanges = transcript.messages.filter(
+    (m) => m.role === "user" || (m.role === "assistant" && !m.toolCalls?.length)
+  );
+  for (const message of exchanges.slice(-6)) {
+    if (message.role === "user") {
+      console.log(chalk.bold(`› ${message.text}`));
+    } else if (message.role === "assistant") {
+      console.log(chalk.gray(message.text ?? ""));
+    }
+  }
+}
+
+function printGitOutput(args: string[], colorize = false) {
+  const result = runGit(args, { cwd: process.cwd() });
+  if (result.return_code !== 0) {
+    console.log(chalk.red(result.stderr || "git failed"));
+  } else if (!result.stdout) {
+    console.log(chalk.dim("(nothing to show)"));
+  } else {
+    console.log(colorize ? colorDiff(result.stdout) : result.stdout);
+  }
+}
+
+/**
+ * `gfts chat`: a persistent assist session. The conversation, tool calls
+ * included, carries over between instructions and is saved after every
+ * exchange so it can be resumed with `--resume`.
+ */
+export async function runChat(dryRun = false, options: ChatOptions = {}) {
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      'gfts chat needs a terminal; use gfts "<instruction>" in scripts'
+    );
+  }
+
+  let transcript: ChatTranscript;
+  if (options.resume) {
+    const found =
+      typeof options.resume === "string"
+        ? loadTranscript(options.resume)
+        : listTranscripts(process.cwd())[0] ?? null;
+    if (!found) {
+      throw new Error(
+        typeof options.resume === "string"
+          ? `No saved chat '${options.resume}'`
+          : "No saved chat for this directory"
+      );
+    }
+    transcript = found;
+  } else {
+    transcript = newTranscript();
+  }
+  dryRun ||= transcript.dryRun;
+  transcript.dryRun = dryRun;
+
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.ROBOT} GFTS Chat`));
+  console.log(
+    chalk.dim("Type an instruction, or /help for commands. Ctrl-D to leave.")
+  );
+  printDivider();
+
+  const initSpinner = ora({
+    text: `${EMOJI.THINKING} Initializing MCP client`,
+    color: "blue",
+  }).start();
+
+  const journal = new SessionJournal(`chat ${transcript.id}`, process.cwd());
+  let mcpClient: MCPClient | undefined;
+
+  try {
+    const settings = await loadSettings();
+    mcpClient = new MCPClient(process.cwd(), {
+      externalServers: settings.mcpServers,
+      policy: new PolicyEngine(settings.policy.rules, {
+        autoApprove: options.yes,
+        cwd: process.cwd(),
+      }),
+      journal,
+    });
+    await mcpClient.connect();
+    const provider = await createProvider(settings, options);
+    initSpinner.succeed(
+      chalk.green(
+        `${EMOJI.SUCCESS} Ready: ${provider.name} (${provider.model})${
+          dryRun ? chalk.magenta(" [dry run]") : ""
+        }`
+      )
+    );
+    if (transcript.messages.length) {
+      console.log(chalk.dim(`Resuming chat ${transcript.id}`));
+      printRecap(transcript);
+    }
+
+    const history = transcript.messages
+      .filter((m) => m.role === "user")
+      .map((m) => (m as { text: string }).text)
+      .reverse();
+
+    for (;;) {
+      const line = await ask(
+        dryRun ? chalk.magenta("dry-run › ") : chalk.bold.cyan("› "),
+        history
+      );
+      if (line === null) break;
+      const input = line.trim();
+      if (!input) continue;
+
+      if (input.startsWith("/")) {
+        const [command, arg] = input.split(/\s+/);
+        if (command === "/exit" || command === "/quit") break;
+        switch (command) {
+          case "/status":
+            printGitOutput(["status", "--short", "--branch"]);
+            break;
+          case "/diff":
+            printGitOutput(["diff", "HEAD"], true);
+            break;
+          case "/tools":
+            for (const tool of mcpClient.listTools()) {
+              console.log(
+                `${chalk.cyan(tool.name)} ${chalk.dim(
+                  tool.description.split("\n")[0]
+                )}`
+              );
+            }
+            break;
+          case "/dry-run":
+            if (arg === "on" || arg === "off") {
+              // Each dry-run stretch simulates against the files as they are now.
+              if (dryRun !== (arg === "on")) mcpClient.resetDryRun();
+              dryRun = arg === "on";
+            } else if (arg) {
+              console.log(chalk.yellow("Use /dry-run on or /dry-run off"));
+              break;
+            }
+            transcript.dryRun = dryRun;
+            console.log(
+              chalk.magenta(`Dry-run mode is ${dryRun ? "on" : "off"}`)
+            );
+            break;
+          case "/clear":
+            transcript.messages = [];
+            saveTranscript(transcript);
+            console.log(chalk.dim("Conversation cleared"));
+            break;
+          case "/help":
+            for (const [name, description] of SLASH_COMMANDS) {
+              console.log(`${chalk.cyan(name.padEnd(16))} ${description}`);
+            }
+            break;
+          default:
+            console.log(chalk.yellow(`Unknown command ${command}; try /help`));
+        }
+        continue;
+      }
+
+      transcript.title ||= input;
+      transcript.messages.push({ role: "user", text: input });
+      try {
+        await runAgentTurns(transcript.messages, {
+          system: assistSystemPrompt(settings, dryRun),
+          provider,
+          mcpClient,
+          dryRun,
+          stream: true,
+        });
+      } catch (err) {
+        console.log(chalk.red(`${EMOJI.ERROR} ${formatError(err)}`));
+        // Keep the conversation consistent for the next instruction.
+        transcript.messages.push({
+          role: "assistant",
+          text: `(The previous instruction failed: ${formatError(err)})`,
+        });
+      }
+      if (dryRun) {
+        console.log(chalk.bold.magenta("Planned changes so far (dry run):"));
+        console.log(formatDryRunPlan(mcpClient.getDryRunPlan()));
+      }
+      saveTranscript(transcript);
+    }
+  } catch (error) {
+    if (initSpinner.isSpinning) {
+      initSpinner.fail(chalk.red("Failed to start the chat"));
+    }
+    console.error(chalk.red(`\n${EMOJI.ERROR} Chat failed:`));
+    console.error(chalk.red(formatError(error)));
+    throw error;
+  } finally {
+    saveTranscript(transcript);
+    if (transcript.messages.length) {
+      console.log(
+        chalk.dim(
+          `Chat saved. Resume it with: gfts chat --resume ${transcript.id}`
+        )
+      );
+    }
+    if (journal.record.actions.length) {
+      journal.finish();
+      console.log(
+        chalk.dim(
+          `Session ${journal.id} journaled. Revert it with: gfts undo ${journal.id}`
+        )
+      );
+    }
+    await mcpClient?.cleanup();
+  }
+}
+
+export function runChatList(limit = 10) {
+  const transcripts = listTranscripts().slice(0, limit);
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Saved Chats`));
+  printDivider();
+  if (!transcripts.length) {
+    console.log(chalk.yellow("No saved chats yet"));
+    return;
+  }
+  for (const t of transcripts) {
+    console.log(
+      `${chalk.bold(t.id)}  ${chalk.dim(
+        new Date(t.updatedAt).toLocaleString()
+      )}`
+    );
+    console.log(`  ${chalk.greenBright(t.title || "(untitled)")}`);
+    console.log(chalk.dim(`  in ${t.cwd}`));
+  }
+}
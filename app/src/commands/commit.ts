@@ -1,19 +1,71 @@
-import { execSync } from "child_process";
 import chalk from "chalk";
+import inquirer from "inquirer";
 import ora from "ora";
-import { GoogleGenAI } from "@google/genai";
-import { getApiKey } from "../config/api";
+import { loadSettings, type Settings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import {
+  createProvider,
+  type LLMProvider,
+  type ProviderOptions,
+} from "../providers";
+import { DryRunServer, formatDryRunPlan } from "../server/dry-run";
+import { runGitChecked, type GitResult } from "../server/git";
+import {
+  conventionVars,
+  formatCommitMessage,
+  formatHeader,
+  inferScope,
+  parseCandidates,
+  validateCandidate,
+  type CommitCandidate,
+} from "../commit/conventional";
+import { digestDiff } from "../commit/digest";
+import { blockingFindings } from "../commit/review";
+import {
+  checkPushable,
+  planPush,
+  pushAfterCommit,
+  type PushOptions,
+} from "../commit/push";
+import {
+  resolveStageOptions,
+  stageChanges,
+  stageArgs,
+  stagedSummary,
+  withIndex,
+  type StageOptions,
+} from "../commit/staging";
+import { printFindings, reviewChanges } from "./review";
 import { EMOJI, formatError, printDivider } from "./utils";
 
+/** Runs git in the working directory; throws GitError on failure. */
+function git(args: string[], input?: string): GitResult {
+  return runGitChecked(args, { cwd: process.cwd(), input });
+}
+
+export const NOTHING_STAGED =
+  "Nothing staged to commit. Stage files first, or pass -a, --paths or -p.";
+
+export interface CommitOptions extends StageOptions, PushOptions {}
+
+/**
+ * Stages per `options` (by default the index is used as is), commits and
+ * pushes. `skipPush` defaults to the `push.enabled` setting.
+ */
 export async function runManualCommit(
   commitMessage: string,
   dryRun = false,
-  skipPush = false
+  skipPush?: boolean,
+  options: CommitOptions = {}
 ) {
   if (!commitMessage || typeof commitMessage !== "string") {
     throw new Error("Commit message is required and must be a string");
   }
 
+  const settings = await loadSettings();
+  skipPush ??= !settings.push.enabled;
+  const stage = await resolveStageOptions(options);
+
   printDivider();
   console.log(chalk.bold.cyan(`${EMOJI.COMMIT} Commit Details`));
   console.log(chalk.greenBright(`Message: ${commitMessage}`));
@@ -26,10 +78,28 @@ export async function runManualCommit(
     }).start();
 
     try {
-      execSync("git add .", { cwd: process.cwd() });
+      const server = new DryRunServer(process.cwd());
+      const changes = await withIndex(process.cwd(), true, async (git) => {
+        stageChanges(git, stage);
+        return stagedSummary(git);
+      });
+      if (!changes) throw new Error(NOTHING_STAGED);
+
+      const addArgs = stageArgs(stage);
+      if (addArgs) server.recordGit(addArgs);
+      await server.gitCommit(commitMessage);
+      if (!skipPush) {
+        server.recordGit(planPush(settings, options).args);
+      }
+
       dryRunSpinner.succeed(
         chalk.magenta("Dry run completed - no changes were committed")
       );
+
+      console.log(chalk.bold("\nChanges that would be committed:"));
+      console.log(chalk.gray(changes));
+      console.log();
+      console.log(formatDryRunPlan(server.getPlan()));
     } catch (error) {
       dryRunSpinner.fail(chalk.red(`Dry run failed: ${formatError(error)}`));
       throw error;
@@ -37,15 +107,26 @@ export async function runManualCommit(
     return;
   }
 
+  if (!skipPush && !checkPushable(settings, options)) return;
+
   const stageSpinner = ora({
-    text: "Staging changes",
+    text: stageArgs(stage) ? "Staging changes" : "Checking staged changes",
     color: "blue",
   }).start();
 
   try {
-    execSync("git add .", { cwd: process.cwd() });
+    const staged = await withIndex(process.cwd(), false, async (git) => {
+      stageChanges(git, stage);
+      return stagedSummary(git);
+    });
+    if (!staged) {
+      stageSpinner.fail(chalk.red("Nothing staged"));
+      throw new Error(NOTHING_STAGED);
+    }
     stageSpinner.succeed(
-      chalk.green(`${EMOJI.SUCCESS} Changes staged successfully`)
+      chalk.green(
+        `${EMOJI.SUCCESS} ${staged.split("\n").length} file(s) staged`
+      )
     );
 
     const commitSpinner = ora({
@@ -53,29 +134,12 @@ export async function runManualCommit(
       color: "blue",
     }).start();
 
-    execSync(`git commit -m "${commitMessage}"`, { cwd: process.cwd() });
+    git(["commit", "-F", "-"], commitMessage);
     commitSpinner.succeed(
       chalk.green(`${EMOJI.SUCCESS} Commit created successfully`)
     );
 
-    if (!skipPush) {
-      const currentBranch = execSync("git branch --show-current", {
-        encoding: "utf-8",
-        cwd: process.cwd(),
-      }).trim();
-
-      const pushSpinner = ora({
-        text: `Pushing to origin/${currentBranch}`,
-        color: "blue",
-      }).start();
-
-      execSync(`git push origin ${currentBranch}`, { cwd: process.cwd() });
-      pushSpinner.succeed(
-        chalk.green(
-          `${EMOJI.SUCCESS} Changes pushed to origin/${currentBranch}`
-        )
-      );
-    }
+    if (!skipPush && !(await pushAfterCommit(settings, options))) return;
 
     printDivider();
     console.log(chalk.bold.green("All operations completed successfully! 🎉"));
@@ -98,7 +162,191 @@ export async function runManualCommit(
   }
 }
 
-export async function runAutoCommit(dryRun = false, skipPush = false) {
+function commitMessagePrompt(
+  settings: Settings,
+  diff: string,
+  scope?: string
+): string {
+  return buildPrompt(settings, "commitMessage", {
+    ...conventionVars(settings.commit),
+    scope:
+      scope && settings.commit.convention === "conventional"
+        ? `The changed paths belong to the scope '${scope}'; use it unless the diff clearly says otherwise.`
+        : "",
+    count: settings.commit.candidates,
+    diff,
+  });
+}
+
+type Regenerate = (previous: string[], hint?: string) => Promise<string[]>;
+
+/**
+ * Lets the user pick one of the candidate messages, then accept it, edit it
+ * in $EDITOR, go back to the other candidates, regenerate them with an
+ * optional hint, or abort. Resolves to the final message, or null when the
+ * user aborts.
+ */
+async function reviewCommitMessage(
+  candidates: string[],
+  regenerate: Regenerate
+): Promise<string | null> {
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Reviewing the commit message needs a terminal; re-run with --yes to commit it unreviewed"
+    );
+  }
+
+  const askHint = async () => {
+    const { hint } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "hint",
+        message: "Hint for the new messages (optional):",
+      },
+    ]);
+    return hint.trim() || undefined;
+  };
+
+  let message = candidates.length === 1 ? candidates[0] : undefined;
+  while (true) {
+    if (message === undefined) {
+      printDivider();
+      candidates.forEach((candidate, i) => {
+        console.log(chalk.bold(`${i + 1}.`), chalk.greenBright(candidate));
+        console.log();
+      });
+      printDivider();
+
+      const { pick } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "pick",
+          message: "Pick a commit message",
+          choices: [
+            ...candidates.map((candidate, i) => ({
+              name: `${i + 1}. ${candidate.split("\n")[0]}`,
+              value: i,
+            })),
+            new inquirer.Separator(),
+            { name: "Regenerate", value: "regenerate" },
+            { name: "Abort", value: "abort" },
+          ],
+        },
+      ]);
+
+      if (pick === "abort") return null;
+      if (pick === "regenerate") {
+        candidates = await regenerate(candidates, await askHint());
+        message = candidates.length === 1 ? candidates[0] : undefined;
+      } else {
+        message = candidates[pick];
+      }
+      continue;
+    }
+
+    printDivider();
+    console.log(chalk.bold("Proposed commit message:\n"));
+    console.log(chalk.greenBright(message));
+    printDivider();
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "choice",
+        message: "Use this commit message?",
+        choices: [
+          { name: "Accept", value: "accept" },
+          { name: "Edit in $EDITOR", value: "edit" },
+          ...(candidates.length > 1
+            ? [{ name: "Choose another candidate", value: "back" }]
+            : []),
+          { name: "Regenerate", value: "regenerate" },
+          { name: "Abort", value: "abort" },
+        ],
+      },
+    ]);
+
+    switch (choice) {
+      case "accept":
+        return message;
+      case "abort":
+        return null;
+      case "back":
+        message = undefined;
+        break;
+      case "edit": {
+        const { edited } = await inquirer.prompt([
+          {
+            type: "editor",
+            name: "edited",
+            message: "Edit the commit message",
+            default: message,
+            postfix: ".gitcommit",
+          },
+        ]);
+        const cleaned = stripComments(edited);
+        if (cleaned) message = cleaned;
+        else
+          console.log(chalk.yellow("Empty message; keeping the previous one"));
+        break;
+      }
+      case "regenerate":
+        candidates = await regenerate(candidates, await askHint());
+        message = candidates.length === 1 ? candidates[0] : undefined;
+        break;
+    }
+  }
+}
+
+/** Drops `#` comment lines and surrounding blank lines, like git does. */
+function stripComments(text: string): string {
+  return text
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+}
+
+export interface AutoCommitOptions
+  extends ProviderOptions,
+    StageOptions,
+    PushOptions {
+  /** Commit the first valid candidate without the review step. */
+  yes?: boolean;
+  /** Review the changes first; defaults to `review.gate`. */
+  review?: boolean;
+  /** Commit even when the review finds blocking issues. */
+  force?: boolean;
+}
+
+/**
+ * Reviews a prepared diff and throws when the findings include blocking
+ * issues, unless `force` is set.
+ */
+export async function reviewGate(
+  diff: string,
+  provider: LLMProvider,
+  settings: Settings,
+  force?: boolean
+) {
+  const findings = await reviewChanges(diff, provider, settings);
+  printFindings(findings);
+  const blocking = blockingFindings(findings, settings.review.blockOn);
+  if (blocking.length && !force) {
+    throw new Error(
+      `The review found ${blocking.length} blocking issue(s); fix them or re-run with --force`
+    );
+  }
+  if (blocking.length) {
+    console.log(chalk.yellow("Committing anyway (--force)"));
+  }
+}
+
+export async function runAutoCommit(
+  dryRun = false,
+  skipPush?: boolean,
+  options: AutoCommitOptions = {}
+) {
   printDivider();
   console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Auto-Commit`));
 
@@ -108,52 +356,142 @@ export async function runAutoCommit(dryRun = false, skipPush = false) {
   }).start();
 
   try {
-    execSync("git add .", { cwd: process.cwd() });
-    const diff = execSync("git diff --staged", {
-      encoding: "utf-8",
-      cwd: process.cwd(),
+    const stage = await resolveStageOptions(options);
+    const diff = await withIndex(process.cwd(), dryRun, async (git) => {
+      stageChanges(git, stage);
+      return git(["diff", "--cached"]).stdout;
     });
 
     if (!diff.trim()) {
-      stageSpinner.info(chalk.yellow("No changes to commit"));
+      stageSpinner.info(chalk.yellow(NOTHING_STAGED));
       return;
     }
 
-    stageSpinner.succeed(chalk.green(`${EMOJI.SUCCESS} Changes detected`));
+    stageSpinner.succeed(
+      chalk.green(`${EMOJI.SUCCESS} Using the staged changes`)
+    );
 
-    const genSpinner = ora({
-      text: `${EMOJI.THINKING} Analyzing changes and generating commit message`,
+    const settings = await loadSettings();
+    const provider = await createProvider(settings, options);
+
+    const digestSpinner = ora({
+      text: "Preparing the diff",
       color: "blue",
     }).start();
-
-    const apiKey = await getApiKey();
-    const genai = new GoogleGenAI({ apiKey });
-
-    const prompt = `Based on the following git diff, generate a concise commit message following Conventional Commits:\n\n${diff}`;
-    const response = await genai.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        {
-          parts: [{ text: prompt }],
-          role: "user",
-        },
-      ],
+    const digest = await digestDiff(diff, provider, settings, (done, total) => {
+      digestSpinner.text = `Summarizing a large diff (${done + 1}/${total})`;
+    }).catch((err) => {
+      digestSpinner.fail(chalk.red("Failed to summarize the diff"));
+      throw err;
     });
+    const left = digest.files.filter((f) => f.excluded).map((f) => f.path);
+    digestSpinner.succeed(
+      chalk.green(
+        `${EMOJI.SUCCESS} ${digest.files.length} file(s) ${
+          digest.summarized ? "summarized" : "ready"
+        }${left.length ? chalk.dim(` (left out: ${left.join(", ")})`) : ""}`
+      )
+    );
 
-    if (!response?.candidates?.[0]?.content?.parts?.[0]?.text) {
-      genSpinner.fail(chalk.red("Failed to generate commit message"));
-      throw new Error("Failed to generate commit message");
+    if (options.review ?? settings.review.gate) {
+      await reviewGate(digest.text, provider, settings, options.force);
     }
 
-    const commitMessage = response.candidates[0].content.parts[0].text
-      .replace(/^```|```$/g, "")
-      .trim();
-
-    genSpinner.succeed(
-      chalk.green(`${EMOJI.SUCCESS} Commit message generated`)
+    const scope = inferScope(
+      digest.files.map((f) => f.path),
+      settings.commit.scopes
     );
 
-    await runManualCommit(commitMessage, dryRun, skipPush);
+    const generate = async (previous: string[] = [], hint?: string) => {
+      const genSpinner = ora({
+        text: `${EMOJI.THINKING} Analyzing changes and generating commit messages`,
+        color: "blue",
+      }).start();
+
+      let prompt = commitMessagePrompt(settings, digest.text, scope);
+      if (previous.length) {
+        prompt += `\n\nThese earlier suggestions were rejected:\n${previous.join(
+          "\n---\n"
+        )}`;
+      }
+      if (hint) prompt += `\n\nAdditional instructions: ${hint}`;
+
+      // One retry, telling the model why its candidates were rejected.
+      let rejected: string[] = [];
+      for (let attempt = 0; attempt < 2; attempt++) {
+        if (rejected.length) {
+          prompt += `\n\nThese candidates broke the rules; fix them:\n${rejected.join(
+            "\n"
+          )}`;
+        }
+        const response = await provider
+          .generate({ messages: [{ role: "user", text: prompt }] })
+          .catch((err) => {
+            genSpinner.fail(chalk.red("Failed to generate commit messages"));
+            throw err;
+          });
+
+        let candidates: CommitCandidate[];
+        try {
+          candidates = parseCandidates(response.text);
+        } catch (err) {
+          rejected = [formatError(err)];
+          continue;
+        }
+
+        const valid: string[] = [];
+        rejected = [];
+        for (const candidate of candidates) {
+          const problems = validateCandidate(candidate, settings.commit);
+          if (problems.length) {
+            rejected.push(`${formatHeader(candidate)}: ${problems.join("; ")}`);
+          } else {
+            valid.push(formatCommitMessage(candidate));
+          }
+        }
+
+        if (valid.length) {
+          genSpinner.succeed(
+            chalk.green(
+              `${EMOJI.SUCCESS} Generated ${valid.length} commit message candidate(s)`
+            )
+          );
+          for (const reason of rejected) {
+            console.log(chalk.dim(`  skipped ${reason}`));
+          }
+          return valid;
+        }
+      }
+
+      genSpinner.fail(chalk.red("Failed to generate commit messages"));
+      throw new Error(
+        `No valid commit message candidates:\n${rejected.join("\n")}`
+      );
+    };
+
+    const candidates = await generate();
+    let commitMessage = candidates[0]!;
+    if (!options.yes) {
+      const reviewed = await reviewCommitMessage(candidates, generate);
+      if (reviewed === null) {
+        console.log(
+          chalk.yellow(
+            dryRun
+              ? "Commit aborted"
+              : "Commit aborted; the changes are still staged"
+          )
+        );
+        return;
+      }
+      commitMessage = reviewed;
+    }
+
+    // Outside dry runs the index already holds exactly what was described.
+    await runManualCommit(commitMessage, dryRun, skipPush, {
+      ...(dryRun ? stage : {}),
+      remote: options.remote,
+      yes: options.yes,
+    });
   } catch (error) {
     const errorMessage = formatError(error);
     console.error(chalk.red(`\n${EMOJI.ERROR} Auto-commit failed:`));
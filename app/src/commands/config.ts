@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { ENV_FILE } from "../config/paths";
+import {
+  getSettingPath,
+  loadSettings,
+  maskSecrets,
+  readRawSettings,
+  setSettingPath,
+  settingsFilePath,
+  unsetSettingPath,
+  writeRawSettings,
+  type SettingsScope,
+} from "../config/settings";
+import { EMOJI, formatError, printDivider } from "./utils";
+
+const scopeOf = (repo?: boolean): SettingsScope => (repo ? "repo" : "global");
+
+/** Parses a CLI value as JSON, falling back to a plain string. */
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** Flattens nested settings into dotted keys; arrays stay whole. */
+function flatten(value: unknown, prefix = ""): [string, unknown][] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [[prefix, value]];
+  }
+  const entries = Object.entries(value);
+  if (!entries.length && prefix) return [[prefix, value]];
+  return entries.flatMap(([key, child]) =>
+    flatten(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Prints the effective settings (defaults, global file and repo file
+ * merged) with credentials masked.
+ */
+export async function runConfigShow() {
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.CONFIG} Configuration`));
+  console.log(chalk.dim(`Global: ${settingsFilePath("global")}`));
+  console.log(chalk.dim(`Repo:   ${settingsFilePath("repo")}`));
+  printDivider();
+  console.log(JSON.stringify(maskSecrets(await loadSettings()), null, 2));
+}
+
+export async function runConfigList(repo?: boolean) {
+  const scope = scopeOf(repo);
+  const entries = flatten(maskSecrets(await readRawSettings(scope))).filter(
+    ([key]) => key
+  );
+  if (!entries.length) {
+    console.log(chalk.yellow(`No settings in ${settingsFilePath(scope)}`));
+    return;
+  }
+  for (const [key, value] of entries) {
+    console.log(`${chalk.cyan(key)} = ${formatValue(value)}`);
+  }
+}
+
+/** Reports a rejected key or value without a stack trace. */
+function fail(message: string) {
+  console.error(chalk.red(`${EMOJI.ERROR} ${message}`));
+  process.exitCode = 1;
+}
+
+export async function runConfigGet(key: string) {
+  const value = getSettingPath(await loadSettings(), key);
+  if (value === undefined) {
+    fail(`'${key}' is not set`);
+    return;
+  }
+  console.log(formatValue(value));
+}
+
+export async function runConfigSet(key: string, value: string, repo?: boolean) {
+  const scope = scopeOf(repo);
+  const raw = await readRawSettings(scope);
+  setSettingPath(raw, key, parseValue(value));
+  try {
+    await writeRawSettings(scope, raw);
+  } catch (error) {
+    fail(
+      `Invalid setting for ${settingsFilePath(scope)}:\n${formatError(error)}`
+    );
+    return;
+  }
+  console.log(
+    chalk.green(`${EMOJI.SUCCESS} Set ${key} in ${settingsFilePath(scope)}`)
+  );
+}
+
+export async function runConfigUnset(key: string, repo?: boolean) {
+  const scope = scopeOf(repo);
+  const raw = await readRawSettings(scope);
+  if (!unsetSettingPath(raw, key)) {
+    console.log(
+      chalk.yellow(`'${key}' is not set in ${settingsFilePath(scope)}`)
+    );
+    return;
+  }
+  await writeRawSettings(scope, raw);
+  console.log(
+    chalk.green(
+      `${EMOJI.SUCCESS} Removed ${key} from ${settingsFilePath(scope)}`
+    )
+  );
+}
+
+/**
+ * Deletes the settings file for a scope. The global reset also removes the
+ * legacy .env file holding the API key.
+ */
+export async function runConfigReset(repo?: boolean, yes = false) {
+  const scope = scopeOf(repo);
+  const files =
+    scope === "global"
+      ? [settingsFilePath(scope), ENV_FILE]
+      : [settingsFilePath(scope)];
+
+  if (!yes) {
+    const { proceed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "proceed",
+        message: `Delete ${files.join(" and ")}?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow("Reset cancelled"));
+      return;
+    }
+  }
+
+  await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+  console.log(chalk.green(`${EMOJI.SUCCESS} Configuration reset to defaults`));
+}
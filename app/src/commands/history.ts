@@ -0,0 +1,111 @@
+import path from "path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import {
+  listSessions,
+  loadSession,
+  undoSession,
+  type SessionRecord,
+} from "../journal";
+import { EMOJI, printDivider } from "./utils";
+
+const LEVEL_COLORS = {
+  "read-only": chalk.gray,
+  mutating: chalk.cyan,
+  destructive: chalk.red,
+} as const;
+
+function printSession(record: SessionRecord) {
+  const status = record.undoneAt
+    ? chalk.yellow(" (undone)")
+    : record.finishedAt
+    ? ""
+    : chalk.red(" (interrupted)");
+
+  console.log(
+    `${chalk.bold(record.id)}${status}  ${chalk.dim(
+      new Date(record.startedAt).toLocaleString()
+    )}`
+  );
+  console.log(`  ${chalk.greenBright(record.instruction)}`);
+  console.log(chalk.dim(`  in ${record.cwd}`));
+  for (const action of record.actions) {
+    const color = LEVEL_COLORS[action.level];
+    const marker = action.reversible ? " " : chalk.yellow("!");
+    console.log(`  ${marker} ${color(action.action)}`);
+  }
+}
+
+export async function runHistory(limit = 10) {
+  const sessions = listSessions().slice(0, limit);
+
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Assist History`));
+  printDivider();
+
+  if (!sessions.length) {
+    console.log(chalk.yellow("No journaled sessions yet"));
+    return;
+  }
+
+  sessions.forEach((record, i) => {
+    if (i) console.log();
+    printSession(record);
+  });
+  printDivider();
+  console.log(chalk.dim(`${chalk.yellow("!")} = cannot be undone locally`));
+}
+
+export async function runUndo(sessionId?: string, yes = false) {
+  const cwd = path.resolve(process.cwd());
+  const record = sessionId
+    ? loadSession(sessionId)
+    : listSessions().find((s) => !s.undoneAt && s.cwd === cwd) ?? null;
+
+  if (!record) {
+    throw new Error(
+      sessionId
+        ? `No journaled session with id '${sessionId}'`
+        : `No session to undo in ${cwd}`
+    );
+  }
+  if (record.undoneAt) {
+    throw new Error(`Session ${record.id} was already undone`);
+  }
+
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.CONFIG} Undo Session`));
+  printDivider();
+  printSession(record);
+  printDivider();
+
+  if (!yes) {
+    const { proceed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "proceed",
+        message: `Restore files and refs in ${record.cwd} to their state before this session?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow("Undo cancelled"));
+      return;
+    }
+  }
+
+  const result = undoSession(record);
+
+  for (const action of result.skipped) {
+    console.log(chalk.yellow(`⚠️  Not fully reversible: ${action.action}`));
+  }
+  for (const error of result.errors) {
+    console.log(chalk.red(`${EMOJI.ERROR} ${error}`));
+  }
+
+  console.log(
+    chalk.green(
+      `${EMOJI.SUCCESS} Reverted ${result.restored} action(s) from session ${record.id}`
+    )
+  );
+}
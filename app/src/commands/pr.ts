@@ -0,0 +1,132 @@
+import fs from "fs";
+import chalk from "chalk";
+import ora from "ora";
+import { loadSettings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import { createProvider, type ProviderOptions } from "../providers";
+import { LOG_FORMAT, parseLog, runGit, runGitChecked } from "../server/git";
+import { digestDiff } from "../commit/digest";
+import {
+  defaultBaseBranch,
+  mergeBase,
+  parsePrDescription,
+  renderPrMarkdown,
+} from "../commit/pr";
+import { EMOJI, formatError } from "./utils";
+
+export interface PrDescribeOptions extends ProviderOptions {
+  /** Branch the pull request targets; defaults to the remote's default. */
+  base?: string;
+  /** File to write the Markdown to instead of stdout. */
+  output?: string;
+}
+
+/**
+ * `gfts pr-describe`: drafts a pull request title and body from the commits
+ * and cumulative diff since the branch left `base`. Everything comes from
+ * the local repository; progress goes to stderr so stdout stays pipeable.
+ */
+export async function runPrDescribe(options: PrDescribeOptions = {}) {
+  const cwd = process.cwd();
+  const spinner = ora({ text: "Collecting the branch", color: "blue" }).start();
+
+  try {
+    const base = options.base ?? defaultBaseBranch(cwd);
+    const fork = mergeBase(base, cwd);
+    const branch =
+      runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], { cwd }).stdout ||
+      "HEAD";
+
+    const commits = parseLog(
+      runGitChecked(["log", `--format=${LOG_FORMAT}`, `${fork}..HEAD`], {
+        cwd,
+      }).stdout
+    );
+    if (!commits.length) {
+      spinner.info(chalk.yellow(`No commits between ${base} and ${branch}`));
+      return;
+    }
+    const diff = runGitChecked(["diff", "--binary", fork, "HEAD"], {
+      cwd,
+    }).stdout;
+    spinner.succeed(
+      chalk.green(`${EMOJI.SUCCESS} ${commits.length} commit(s) since ${base}`)
+    );
+
+    const settings = await loadSettings();
+    const provider = await createProvider(settings, options);
+
+    const digestSpinner = ora({
+      text: "Preparing the diff",
+      color: "blue",
+    }).start();
+    const digest = await digestDiff(diff, provider, settings, (done, total) => {
+      digestSpinner.text = `Summarizing a large diff (${done + 1}/${total})`;
+    }).catch((err) => {
+      digestSpinner.fail(chalk.red("Failed to summarize the diff"));
+      throw err;
+    });
+    digestSpinner.succeed(
+      chalk.green(
+        `${EMOJI.SUCCESS} ${digest.files.length} file(s) ${
+          digest.summarized ? "summarized" : "ready"
+        }`
+      )
+    );
+
+    const genSpinner = ora({
+      text: `${EMOJI.THINKING} Writing the pull request description`,
+      color: "blue",
+    }).start();
+
+    let prompt = buildPrompt(settings, "prDescription", {
+      base,
+      branch,
+      commits: commits
+        .map((c) =>
+          [`- ${c.subject}`, c.body.trim()].filter(Boolean).join("\n")
+        )
+        .join("\n"),
+      diff: digest.text,
+    });
+
+    // One retry, telling the model what was wrong with its reply.
+    let markdown: string | undefined;
+    let problem = "";
+    for (let attempt = 0; attempt < 2 && !markdown; attempt++) {
+      if (problem) {
+        prompt += `\n\nYour previous reply was rejected: ${problem}`;
+      }
+      const response = await provider
+        .generate({ messages: [{ role: "user", text: prompt }] })
+        .catch((err) => {
+          genSpinner.fail(chalk.red("Failed to write the description"));
+          throw err;
+        });
+      try {
+        markdown = renderPrMarkdown(parsePrDescription(response.text));
+      } catch (err) {
+        problem = formatError(err);
+      }
+    }
+    if (!markdown) {
+      genSpinner.fail(chalk.red("Failed to write the description"));
+      throw new Error(problem);
+    }
+
+    if (options.output) {
+      fs.writeFileSync(options.output, markdown);
+      genSpinner.succeed(
+        chalk.green(`${EMOJI.SUCCESS} Wrote ${options.output}`)
+      );
+    } else {
+      genSpinner.stop();
+      process.stdout.write(markdown);
+    }
+  } catch (error) {
+    if (spinner.isSpinning)
+      spinner.fail(chalk.red("Failed to read the branch"));
+    console.error(chalk.red(`\n${EMOJI.ERROR} PR description failed:`));
+    throw error;
+  }
+}
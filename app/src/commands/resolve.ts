@@ -0,0 +1,375 @@
+import path from "path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import ora from "ora";
+import { loadSettings, type Settings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import {
+  createProvider,
+  type LLMProvider,
+  type ProviderOptions,
+} from "../providers";
+import { GftsServer } from "../server";
+import { DryRunServer, colorDiff, formatDryRunPlan } from "../server/dry-run";
+import { unifiedDiff } from "../server/diff";
+import { runGit, runGitChecked } from "../server/git";
+import {
+  applyResolutions,
+  conflictHunks,
+  conflictedFiles,
+  mergeOperation,
+  parseConflicts,
+  parseResolution,
+  resolutionLines,
+  type ConflictHunk,
+  type ConflictResolution,
+  type ConflictSegment,
+  type MergeOperation,
+} from "../commit/conflicts";
+import { formatToolResult, isToolError } from "../tools/handlers";
+import { EMOJI, formatError, printDivider } from "./utils";
+
+/** Lines of surrounding code sent with each hunk. */
+const CONTEXT_LINES = 15;
+
+const hasMarkers = (lines: string[]) =>
+  lines.some((line) => /^(<{7}|={7}$|>{7})/.test(line));
+
+function hunkContext(segments: ConflictSegment[], index: number) {
+  const at = segments.findIndex((s) => s.kind === "conflict" && index-- === 0);
+  const text = (s?: ConflictSegment) => (s?.kind === "text" ? s.lines : []);
+  return {
+    before: text(segments[at - 1])
+      .slice(-CONTEXT_LINES)
+      .join("\n"),
+    after: text(segments[at + 1])
+      .slice(0, CONTEXT_LINES)
+      .join("\n"),
+  };
+}
+
+async function proposeResolution(
+  provider: LLMProvider,
+  settings: Settings,
+  vars: Record<string, string | number>
+): Promise<ConflictResolution> {
+  let prompt = buildPrompt(settings, "resolveConflict", vars);
+  let problem = "";
+  // One retry, telling the model what was wrong with its reply.
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (problem) prompt += `\n\nYour previous reply was rejected: ${problem}`;
+    const response = await provider.generate({
+      messages: [{ role: "user", text: prompt }],
+    });
+    try {
+      const resolution = parseResolution(response.text);
+      if (hasMarkers(resolutionLines(resolution.resolution))) {
+        throw new Error("the resolution still contains conflict markers");
+      }
+      return resolution;
+    } catch (err) {
+      problem = formatError(err);
+    }
+  }
+  throw new Error(problem);
+}
+
+type HunkChoice = "accept" | "edit" | "ours" | "theirs" | "skip" | "stop";
+
+/**
+ * Asks what to do with a proposal until the user settles on some text, a
+ * skip or a stop. Returns the chosen lines, null to skip, or "stop".
+ */
+async function reviewHunk(
+  file: string,
+  hunk: ConflictHunk,
+  proposal: string[]
+): Promise<string[] | null | "stop"> {
+  let lines = proposal;
+  for (;;) {
+    const { choice } = await inquirer.prompt<{ choice: HunkChoice }>([
+      {
+        type: "list",
+        name: "choice",
+        message: "Resolve this hunk?",
+        choices: [
+          { name: "Accept", value: "accept" },
+          { name: "Edit in $EDITOR", value: "edit" },
+          { name: `Keep ours (${hunk.oursLabel})`, value: "ours" },
+          { name: `Keep theirs (${hunk.theirsLabel})`, value: "theirs" },
+          { name: "Skip (leave the markers)", value: "skip" },
+          { name: "Stop here", value: "stop" },
+        ],
+      },
+    ]);
+    switch (choice) {
+      case "accept":
+        return lines;
+      case "ours":
+        return hunk.ours;
+      case "theirs":
+        return hunk.theirs;
+      case "skip":
+        return null;
+      case "stop":
+        return "stop";
+      case "edit": {
+        const { edited } = await inquirer.prompt([
+          {
+            type: "editor",
+            name: "edited",
+            message: "Edit the resolution",
+            default: lines.join("\n") + "\n",
+            postfix: path.extname(file) || ".txt",
+          },
+        ]);
+        const editedLines = resolutionLines(edited);
+        if (hasMarkers(editedLines)) {
+          console.log(chalk.yellow("The edit still has conflict markers"));
+          break;
+        }
+        lines = editedLines;
+        console.log(
+          colorDiff(unifiedDiff(file, hunk.raw.join("\n") + "\n", edited))
+        );
+        const { ok } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "ok",
+            message: "Use the edited resolution?",
+            default: true,
+          },
+        ]);
+        if (ok) return lines;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Stages the resolved files and lets the stopped operation carry on, with
+ * the default commit message so no editor opens.
+ */
+function continueOperation(root: string, operation: MergeOperation) {
+  const spinner = ora({
+    text: `Continuing the ${operation}`,
+    color: "blue",
+  }).start();
+  const result = runGit([operation, "--continue"], {
+    cwd: root,
+    env: { GIT_EDITOR: "true" },
+  });
+  if (result.return_code === 0) {
+    spinner.succeed(chalk.green(`${EMOJI.SUCCESS} Continued the ${operation}`));
+    return;
+  }
+  if (conflictedFiles(root).length) {
+    spinner.warn(
+      chalk.yellow(
+        `The ${operation} stopped on new conflicts; run gfts resolve again`
+      )
+    );
+    return;
+  }
+  spinner.fail(chalk.red(`Could not continue the ${operation}`));
+  throw new Error(result.stderr || result.stdout);
+}
+
+/**
+ * `gfts resolve`: walks the conflict hunks of a stopped merge, rebase,
+ * cherry-pick or revert, proposes a resolution for each and applies only
+ * what the user accepts. Files are staged and the operation continued once
+ * every hunk is resolved.
+ */
+export async function runResolve(
+  dryRun = false,
+  options: ProviderOptions = {}
+) {
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Resolve Conflicts`));
+
+  try {
+    const root = runGitChecked(["rev-parse", "--show-toplevel"], {
+      cwd: process.cwd(),
+    }).stdout;
+    const operation = mergeOperation(root);
+    const files = conflictedFiles(root);
+    if (!files.length) {
+      console.log(
+        chalk.yellow(
+          operation
+            ? `No conflicted files left; finish with: git ${operation} --continue`
+            : "No conflicts to resolve"
+        )
+      );
+      return;
+    }
+    if (!dryRun && !process.stdin.isTTY) {
+      throw new Error(
+        "Resolving conflicts needs a terminal; every hunk must be confirmed"
+      );
+    }
+
+    console.log(
+      chalk.dim(
+        `${files.length} conflicted file(s)${
+          operation ? ` in a ${operation}` : ""
+        }`
+      )
+    );
+
+    const settings = await loadSettings();
+    const provider = await createProvider(settings, options);
+    const preview = dryRun ? new DryRunServer(root) : null;
+    const server = preview ?? new GftsServer(root);
+    const resolved: string[] = [];
+    let stopped = false;
+
+    for (const file of files) {
+      if (stopped) break;
+      printDivider();
+      console.log(chalk.bold(file));
+
+      const content = await server.readFile(file);
+      const segments = content.startsWith("Error")
+        ? null
+        : parseConflicts(content);
+      const hunks = segments ? conflictHunks(segments) : [];
+      if (!segments || !hunks.length) {
+        console.log(
+          chalk.yellow(
+            "  No conflict markers to work with (binary, deleted or renamed); resolve it by hand"
+          )
+        );
+        continue;
+      }
+
+      const resolutions = new Map<number, string[]>();
+      for (const [i, hunk] of hunks.entries()) {
+        const spinner = ora({
+          text: `${EMOJI.THINKING} Hunk ${i + 1}/${hunks.length} at line ${
+            hunk.line
+          }`,
+          color: "blue",
+        }).start();
+
+        let proposal: ConflictResolution;
+        try {
+          proposal = await proposeResolution(provider, settings, {
+            operation: operation ?? "merge",
+            path: file,
+            line: hunk.line,
+            oursLabel: hunk.oursLabel,
+            theirsLabel: hunk.theirsLabel,
+            ours: hunk.ours.join("\n"),
+            base: hunk.base ? hunk.base.join("\n") : "(not available)",
+            theirs: hunk.theirs.join("\n"),
+            ...hunkContext(segments, i),
+          });
+        } catch (err) {
+          spinner.fail(
+            chalk.red(`Hunk ${i + 1}: no usable proposal (${formatError(err)})`)
+          );
+          continue;
+        }
+        spinner.succeed(
+          chalk.green(
+            `${EMOJI.SUCCESS} Hunk ${i + 1}/${hunks.length} at line ${
+              hunk.line
+            }`
+          )
+        );
+
+        const lines = resolutionLines(proposal.resolution);
+        if (proposal.explanation) {
+          console.log(chalk.dim(`  ${proposal.explanation}`));
+        }
+        console.log(
+          colorDiff(
+            unifiedDiff(
+              file,
+              hunk.raw.join("\n") + "\n",
+              lines.length ? lines.join("\n") + "\n" : ""
+            )
+          )
+        );
+
+        if (dryRun) {
+          resolutions.set(i, lines);
+          continue;
+        }
+        const choice = await reviewHunk(file, hunk, lines);
+        if (choice === "stop") {
+          stopped = true;
+          break;
+        }
+        if (choice) resolutions.set(i, choice);
+      }
+
+      if (!resolutions.size) continue;
+      const outcome = await server.writeFile(
+        file,
+        applyResolutions(segments, resolutions)
+      );
+      if (outcome.startsWith("Error")) throw new Error(outcome);
+      if (resolutions.size === hunks.length) {
+        resolved.push(file);
+      } else {
+        console.log(
+          chalk.yellow(
+            `  ${hunks.length - resolutions.size} hunk(s) left unresolved`
+          )
+        );
+      }
+    }
+
+    printDivider();
+    if (preview) {
+      if (resolved.length) await preview.gitAdd(resolved);
+      if (operation && resolved.length === files.length) {
+        preview.recordGit([operation, "--continue"]);
+      }
+      console.log(formatDryRunPlan(preview.getPlan()));
+      console.log(
+        chalk.magenta("Dry run completed - no conflicts were resolved")
+      );
+      return;
+    }
+
+    if (!resolved.length) {
+      console.log(chalk.yellow("No files were fully resolved"));
+      return;
+    }
+    const staged = await server.gitAdd(resolved);
+    if (isToolError(staged)) {
+      throw new Error(
+        `Staging the resolved files failed:\n${formatToolResult(staged)}`
+      );
+    }
+    console.log(
+      chalk.green(`${EMOJI.SUCCESS} Staged ${resolved.length} resolved file(s)`)
+    );
+
+    const remaining = conflictedFiles(root);
+    if (remaining.length) {
+      console.log(chalk.yellow(`Still conflicted: ${remaining.join(", ")}`));
+      return;
+    }
+    if (!operation) return;
+
+    const { proceed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "proceed",
+        message: `All conflicts resolved. Continue the ${operation}?`,
+        default: true,
+      },
+    ]);
+    if (proceed) continueOperation(root, operation);
+    else console.log(chalk.dim(`Finish with: git ${operation} --continue`));
+  } catch (error) {
+    console.error(chalk.red(`\n${EMOJI.ERROR} Resolve failed:`));
+    throw error;
+  }
+}
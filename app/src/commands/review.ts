@@ -0,0 +1,165 @@
+import fs from "fs";
+import chalk from "chalk";
+import ora from "ora";
+import { loadSettings, type Settings } from "../config/settings";
+import {
+  createProvider,
+  type LLMProvider,
+  type ProviderOptions,
+} from "../providers";
+import { runGitChecked } from "../server/git";
+import { digestDiff } from "../commit/digest";
+import { mergeBase } from "../commit/pr";
+import {
+  SEVERITIES,
+  blockingFindings,
+  reviewDiff,
+  sortFindings,
+  toSarif,
+  type Finding,
+  type Severity,
+} from "../commit/review";
+import { EMOJI, printDivider } from "./utils";
+
+export const REVIEW_FORMATS = ["text", "json", "sarif"] as const;
+
+export interface ReviewOptions extends ProviderOptions {
+  /** Review the staged changes (the default). */
+  staged?: boolean;
+  /** Review the commits since the branch left this ref instead. */
+  base?: string;
+  format?: (typeof REVIEW_FORMATS)[number];
+  /** File to write the JSON or SARIF report to instead of stdout. */
+  output?: string;
+}
+
+const SEVERITY_STYLE: Record<Severity, (text: string) => string> = {
+  high: chalk.bgRed.white.bold,
+  medium: chalk.bgYellow.black,
+  low: chalk.bgGray.white,
+};
+
+/** Prints findings most severe first, then by file and line. */
+export function printFindings(findings: Finding[]) {
+  if (!findings.length) {
+    console.log(chalk.green(`${EMOJI.SUCCESS} No findings`));
+    return;
+  }
+  for (const f of sortFindings(findings)) {
+    const lines =
+      f.endLine && f.endLine !== f.startLine
+        ? `${f.startLine}-${f.endLine}`
+        : `${f.startLine}`;
+    console.log(
+      `${SEVERITY_STYLE[f.severity](
+        ` ${f.severity.toUpperCase()} `
+      )} ${chalk.dim(f.category)} ${chalk.bold(`${f.file}:${lines}`)}`
+    );
+    console.log(`  ${f.message}`);
+    if (f.suggestion) console.log(chalk.cyan(`  → ${f.suggestion}`));
+  }
+  const counts = [...SEVERITIES]
+    .reverse()
+    .map((s) => [s, findings.filter((f) => f.severity === s).length] as const)
+    .filter(([, n]) => n)
+    .map(([s, n]) => `${n} ${s}`)
+    .join(", ");
+  console.log(chalk.dim(`${findings.length} finding(s): ${counts}`));
+}
+
+/**
+ * `gfts review`: asks the model to review the staged changes, or a branch
+ * against its base, and reports structured findings. Fails (exit code 1)
+ * when a finding reaches `review.blockOn`.
+ */
+export async function runReview(options: ReviewOptions = {}) {
+  const format = options.format ?? "text";
+  if (!REVIEW_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown format '${format}'; use one of ${REVIEW_FORMATS.join(", ")}`
+    );
+  }
+  if (options.staged && options.base) {
+    throw new Error("Use either --staged or --base, not both");
+  }
+  if (format === "text") {
+    printDivider();
+    console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Review`));
+  }
+
+  const spinner = ora({ text: "Collecting changes", color: "blue" }).start();
+  try {
+    const cwd = process.cwd();
+    const diff = options.base
+      ? runGitChecked(["diff", mergeBase(options.base, cwd), "HEAD"], { cwd })
+          .stdout
+      : runGitChecked(["diff", "--cached"], { cwd }).stdout;
+    if (!diff.trim()) {
+      spinner.info(
+        chalk.yellow(
+          options.base
+            ? `No changes since ${options.base}`
+            : "No staged changes to review"
+        )
+      );
+      return;
+    }
+    spinner.succeed(
+      chalk.green(
+        `${EMOJI.SUCCESS} Reviewing ${
+          options.base ? `the changes since ${options.base}` : "staged changes"
+        }`
+      )
+    );
+
+    const settings = await loadSettings();
+    const provider = await createProvider(settings, options);
+    const digest = await digestDiff(diff, provider, settings);
+    const findings = await reviewChanges(digest.text, provider, settings);
+
+    const blocking = blockingFindings(findings, settings.review.blockOn);
+    if (blocking.length) process.exitCode = 1;
+
+    if (format === "text") {
+      printDivider();
+      printFindings(findings);
+      return;
+    }
+    const report = JSON.stringify(
+      format === "sarif" ? toSarif(findings) : sortFindings(findings),
+      null,
+      2
+    );
+    if (options.output) {
+      fs.writeFileSync(options.output, report + "\n");
+      console.error(chalk.green(`${EMOJI.SUCCESS} Wrote ${options.output}`));
+    } else {
+      process.stdout.write(report + "\n");
+    }
+  } catch (error) {
+    if (spinner.isSpinning)
+      spinner.fail(chalk.red("Failed to collect changes"));
+    console.error(chalk.red(`\n${EMOJI.ERROR} Review failed:`));
+    throw error;
+  }
+}
+
+/** Reviews a prepared diff behind a spinner. */
+export async function reviewChanges(
+  diff: string,
+  provider: LLMProvider,
+  settings: Settings
+): Promise<Finding[]> {
+  const spinner = ora({
+    text: `${EMOJI.THINKING} Reviewing the changes`,
+    color: "blue",
+  }).start();
+  const findings = await reviewDiff(diff, provider, settings).catch((err) => {
+    spinner.fail(chalk.red("Failed to review the changes"));
+    throw err;
+  });
+  spinner.succeed(
+    chalk.green(`${EMOJI.SUCCESS} Review found ${findings.length} issue(s)`)
+  );
+  return findings;
+}
@@ -0,0 +1,42 @@
+import chalk from "chalk";
+import { loadSettings } from "../config/settings";
+import { SessionJournal } from "../journal";
+import { startStdioServer } from "../mcp/server";
+import { PolicyEngine } from "../policy";
+import { getToolDefinitions } from "../tools/declarations";
+import { EMOJI } from "./utils";
+
+export interface ServeOptions {
+  /** Allow calls that need confirmation; there is no terminal to ask on. */
+  yes?: boolean;
+}
+
+export async function runServe(
+  workingDirectory: string = process.cwd(),
+  options: ServeOptions = {}
+) {
+  const settings = await loadSettings(workingDirectory);
+  const journal = new SessionJournal("serve", workingDirectory);
+  await startStdioServer(workingDirectory, {
+    policy: new PolicyEngine(settings.policy.rules, {
+      autoApprove: options.yes,
+      interactive: false,
+      cwd: workingDirectory,
+    }),
+    journal,
+  });
+
+  // stdout is reserved for the MCP protocol
+  console.error(
+    chalk.green(
+      `${EMOJI.SUCCESS} gfts MCP server listening on stdio (${
+        getToolDefinitions().length
+      } tools, root: ${workingDirectory}, session ${journal.id})`
+    )
+  );
+  if (!options.yes) {
+    console.error(
+      chalk.dim("Destructive calls are denied; start with --yes to allow them")
+    );
+  }
+}
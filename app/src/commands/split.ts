@@ -0,0 +1,252 @@
+import chalk from "chalk";
+import inquirer from "inquirer";
+import ora from "ora";
+import { loadSettings } from "../config/settings";
+import { buildPrompt } from "../config/prompts";
+import { createProvider } from "../providers";
+import { runGit, runGitChecked, type GitResult } from "../server/git";
+import {
+  conventionVars,
+  formatCommitMessage,
+  formatHeader,
+} from "../commit/conventional";
+import {
+  buildPatch,
+  describeUnits,
+  parseDiffUnits,
+  parseSplitGroups,
+  type DiffUnit,
+  type SplitGroup,
+} from "../commit/split";
+import { digestDiff } from "../commit/digest";
+import { checkPushable, planPush, pushAfterCommit } from "../commit/push";
+import {
+  resolveStageOptions,
+  stageChanges,
+  withIndex,
+  type StageOptions,
+} from "../commit/staging";
+import { NOTHING_STAGED, reviewGate, type AutoCommitOptions } from "./commit";
+import { EMOJI, formatError, printDivider } from "./utils";
+
+function git(args: string[], input?: string): GitResult {
+  return runGitChecked(args, { cwd: process.cwd(), input });
+}
+
+const hasHead = () =>
+  runGit(["rev-parse", "-q", "--verify", "HEAD"], { cwd: process.cwd() })
+    .return_code === 0;
+
+/**
+ * The changes to split as an applicable patch: what `options` stage, or the
+ * index as the user left it. Staged in a copy of the index so the real one
+ * is untouched.
+ */
+async function stagedPatch(options: StageOptions): Promise<string> {
+  return withIndex(process.cwd(), true, async (git) => {
+    stageChanges(git, options);
+    const diff = git(["diff", "--cached", "--no-renames", "--binary"]).stdout;
+    return diff ? diff + "\n" : "";
+  });
+}
+
+function printGroups(groups: SplitGroup[], units: Map<string, DiffUnit>) {
+  groups.forEach((group, i) => {
+    console.log(
+      chalk.bold(`${i + 1}. `) + chalk.greenBright(formatHeader(group))
+    );
+    for (const id of group.hunks) {
+      const unit = units.get(id)!;
+      const hunk = unit.body.split("\n")[0] || "(whole file)";
+      console.log(chalk.dim(`     ${unit.path} ${hunk}`));
+    }
+  });
+}
+
+/**
+ * Commits each group in order. The commits are built in a scratch index
+ * starting at HEAD, so nothing outside the groups is committed; afterwards
+ * only the committed paths are reset in the real index, and whatever else
+ * the user had staged stays staged.
+ */
+async function commitGroups(groups: SplitGroup[], units: DiffUnit[]) {
+  const byId = new Map(units.map((unit) => [unit.id, unit]));
+  const order = new Map(units.map((unit, i) => [unit.id, i]));
+  const committed = new Set<string>();
+
+  try {
+    await withIndex(process.cwd(), true, async (scratch) => {
+      scratch(hasHead() ? ["read-tree", "HEAD"] : ["read-tree", "--empty"]);
+
+      for (const [i, group] of groups.entries()) {
+        const commitSpinner = ora({
+          text: `Committing ${i + 1}/${groups.length}: ${formatHeader(group)}`,
+          color: "blue",
+        }).start();
+
+        const groupUnits = [...group.hunks]
+          .sort((a, b) => order.get(a)! - order.get(b)!)
+          .map((id) => byId.get(id)!);
+        try {
+          scratch(
+            ["apply", "--cached", "--whitespace=nowarn", "-"],
+            buildPatch(groupUnits)
+          );
+          scratch(["commit", "-q", "-F", "-"], formatCommitMessage(group));
+        } catch (error) {
+          commitSpinner.fail(chalk.red(`Commit ${i + 1} failed`));
+          throw new Error(
+            `${formatError(error)}\nStopped after ${i} of ${
+              groups.length
+            } commit(s); the remaining changes are still in the working tree.`
+          );
+        }
+        groupUnits.forEach((unit) => committed.add(unit.path));
+        commitSpinner.succeed(
+          chalk.green(`${EMOJI.SUCCESS} ${formatHeader(group)}`)
+        );
+      }
+    });
+  } finally {
+    if (committed.size) {
+      git([
+        "reset",
+        "-q",
+        "--",
+        ...[...committed].map((file) => `:(literal)${file}`),
+      ]);
+    }
+  }
+}
+
+/**
+ * `auto-commit --split`: asks the model to group the pending changes, hunk
+ * by hunk, into separate commits, shows the grouping for approval, then
+ * stages and commits each group in order.
+ */
+export async function runSplitCommit(
+  dryRun = false,
+  skipPush?: boolean,
+  options: AutoCommitOptions = {}
+) {
+  printDivider();
+  console.log(chalk.bold.cyan(`${EMOJI.ROBOT} Split Auto-Commit`));
+
+  const stageSpinner = ora({
+    text: "Checking for changes",
+    color: "blue",
+  }).start();
+
+  try {
+    const stage = await resolveStageOptions(options);
+    const patch = await stagedPatch(stage);
+    const units = parseDiffUnits(patch);
+    if (!units.length) {
+      stageSpinner.info(chalk.yellow(NOTHING_STAGED));
+      return;
+    }
+    stageSpinner.succeed(
+      chalk.green(`${EMOJI.SUCCESS} Found ${units.length} change unit(s)`)
+    );
+
+    const settings = await loadSettings();
+    skipPush ??= !settings.push.enabled;
+    if (!dryRun && !skipPush && !checkPushable(settings, options)) return;
+    const provider = await createProvider(settings, options);
+
+    if (options.review ?? settings.review.gate) {
+      const digest = await digestDiff(patch, provider, settings);
+      await reviewGate(digest.text, provider, settings, options.force);
+    }
+
+    const genSpinner = ora({
+      text: `${EMOJI.THINKING} Grouping changes into commits`,
+      color: "blue",
+    }).start();
+
+    let prompt = buildPrompt(settings, "splitCommits", {
+      ...conventionVars(settings.commit),
+      units: describeUnits(units),
+    });
+
+    // One retry, telling the model what was wrong with its grouping.
+    let groups: SplitGroup[] = [];
+    let problems: string[] = [];
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (problems.length) {
+        prompt += `\n\nYour previous grouping was rejected:\n${problems.join(
+          "\n"
+        )}`;
+      }
+      const response = await provider
+        .generate({ messages: [{ role: "user", text: prompt }] })
+        .catch((err) => {
+          genSpinner.fail(chalk.red("Failed to group changes"));
+          throw err;
+        });
+      ({ groups, problems } = parseSplitGroups(
+        response.text,
+        units,
+        settings.commit
+      ));
+      if (!problems.length) break;
+    }
+
+    if (problems.length) {
+      genSpinner.fail(chalk.red("Failed to group changes"));
+      throw new Error(
+        `The proposed grouping is invalid:\n${problems.join("\n")}`
+      );
+    }
+    genSpinner.succeed(
+      chalk.green(`${EMOJI.SUCCESS} Proposed ${groups.length} commit(s)`)
+    );
+
+    const byId = new Map(units.map((unit) => [unit.id, unit]));
+    printDivider();
+    printGroups(groups, byId);
+    printDivider();
+
+    if (dryRun) {
+      if (!skipPush) {
+        const push = ["git", ...planPush(settings, options).args].join(" ");
+        console.log(chalk.cyan(`Then: $ ${push}`));
+      }
+      console.log(
+        chalk.magenta("Dry run completed - no changes were committed")
+      );
+      return;
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          "Approving the grouping needs a terminal; re-run with --yes to commit it unreviewed"
+        );
+      }
+      const { proceed } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "proceed",
+          message: `Create these ${groups.length} commits?`,
+          default: true,
+        },
+      ]);
+      if (!proceed) {
+        console.log(chalk.yellow("Split commit aborted"));
+        return;
+      }
+    }
+
+    await commitGroups(groups, units);
+
+    if (!skipPush && !(await pushAfterCommit(settings, options))) return;
+
+    printDivider();
+    console.log(chalk.bold.green("All operations completed successfully! 🎉"));
+  } catch (error) {
+    console.error(chalk.red(`\n${EMOJI.ERROR} Split commit failed:`));
+    console.error(chalk.red(formatError(error)));
+    throw error;
+  }
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  bumpVersion,
+  compareVersions,
+  latestVersionTag,
+  parseVersion,
+  releaseType,
+  type ChangelogEntry,
+} from "./changelog";
+
+const v = (tag: string) => parseVersion(tag, "v")!;
+
+const entry = (type: string, breaking = false): ChangelogEntry => ({
+  hash: "0000000",
+  type,
+  scope: null,
+  subject: "change",
+  breaking,
+  breakingNotes: breaking ? ["change"] : [],
+});
+
+describe("compareVersions", () => {
+  test("orders by SemVer precedence", () => {
+    const tags = [
+      "v1.0.0",
+      "v1.0.0-rc.1",
+      "v0.9.0",
+      "v1.0.0-alpha",
+      "v1.0.0-rc.10",
+      "v1.0.0-alpha.1",
+      "v1.0.0-rc.2",
+      "v1.0.0-beta",
+      "v1.10.0",
+      "v1.2.0",
+    ];
+    const sorted = [...tags].sort((a, b) => compareVersions(v(a), v(b)));
+    expect(sorted).toEqual([
+      "v0.9.0",
+      "v1.0.0-alpha",
+      "v1.0.0-alpha.1",
+      "v1.0.0-beta",
+      "v1.0.0-rc.1",
+      "v1.0.0-rc.2",
+      "v1.0.0-rc.10",
+      "v1.0.0",
+      "v1.2.0",
+      "v1.10.0",
+    ]);
+  });
+
+  test("ranks numeric prerelease identifiers below alphanumeric ones", () => {
+    expect(compareVersions(v("v1.0.0-1"), v("v1.0.0-alpha"))).toBeLessThan(0);
+  });
+});
+
+describe("releaseType", () => {
+  test("follows the commit types", () => {
+    expect(releaseType([entry("fix")], v("v1.2.3"))).toBe("patch");
+    expect(releaseType([entry("fix"), entry("feat")], v("v1.2.3"))).toBe(
+      "minor"
+    );
+    expect(releaseType([entry("fix", true)], v("v1.2.3"))).toBe("major");
+  });
+
+  test("shifts down one level before 1.0.0", () => {
+    expect(releaseType([entry("feat", true)], v("v0.3.0"))).toBe("minor");
+    expect(releaseType([entry("feat")], v("v0.3.0"))).toBe("patch");
+  });
+
+  test("starts at 0.1.0", () => {
+    const type = releaseType([entry("feat", true)], null);
+    expect(bumpVersion(null, type)).toEqual({ major: 0, minor: 1, patch: 0 });
+  });
+});
+
+describe("bumpVersion", () => {
+  test("bumps a release", () => {
+    expect(bumpVersion(v("v1.2.3"), "major")).toEqual(v("v2.0.0"));
+    expect(bumpVersion(v("v1.2.3"), "minor")).toEqual(v("v1.3.0"));
+    expect(bumpVersion(v("v1.2.3"), "patch")).toEqual(v("v1.2.4"));
+  });
+
+  test("applies a forced level to the first release", () => {
+    expect(bumpVersion(null, "major")).toEqual(v("v1.0.0"));
+    expect(bumpVersion(null, "minor")).toEqual(v("v0.1.0"));
+    expect(bumpVersion(null, "patch")).toEqual(v("v0.0.1"));
+  });
+
+  test("releases a prerelease at the requested level", () => {
+    expect(bumpVersion(v("v2.0.0-rc.1"), "patch")).toEqual(v("v2.0.0"));
+    expect(bumpVersion(v("v2.0.0-rc.1"), "major")).toEqual(v("v2.0.0"));
+    expect(bumpVersion(v("v1.2.0-rc.1"), "minor")).toEqual(v("v1.2.0"));
+    expect(bumpVersion(v("v1.2.0-rc.1"), "major")).toEqual(v("v2.0.0"));
+    expect(bumpVersion(v("v1.2.3-rc.1"), "minor")).toEqual(v("v1.3.0"));
+    expect(bumpVersion(v("v1.2.3-rc.1"), "patch")).toEqual(v("v1.2.3"));
+  });
+});
+
+describe("latestVersionTag", () => {
+  let repo: string;
+  const git = (...args: string[]) => {
+    const result = Bun.spawnSync(["git", ...args], { cwd: repo });
+    if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-tags-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    git("commit", "-q", "--allow-empty", "-m", "init");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  test("is undefined without version tags", () => {
+    git("tag", "not-a-version");
+    expect(latestVersionTag("v", "HEAD", repo)).toBeUndefined();
+  });
+
+  test("ranks a release above its prereleases", () => {
+    for (const tag of ["v0.9.0", "v1.0.0-rc.1", "v1.0.0", "v1.0.0-rc.2"]) {
+      git("tag", tag);
+    }
+    expect(latestVersionTag("v", "HEAD", repo)).toBe("v1.0.0");
+  });
+
+  test("only considers tags reachable from the ref", () => {
+    git("tag", "v1.0.0");
+    git("checkout", "-q", "-b", "next");
+    git("commit", "-q", "--allow-empty", "-m", "next");
+    git("tag", "v2.0.0");
+    git("checkout", "-q", "-");
+    expect(latestVersionTag("v", "HEAD", repo)).toBe("v1.0.0");
+    expect(latestVersionTag("v", "next", repo)).toBe("v2.0.0");
+  });
+});
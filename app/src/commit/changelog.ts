@@ -0,0 +1,284 @@
+import fs from "fs";
+import { LOG_FORMAT, parseLog, runGit, runGitChecked } from "../server/git";
+
+export interface ChangelogEntry {
+  hash: string;
+  /** Empty for commits that do not follow Conventional Commits. */
+  type: string;
+  scope: string | null;
+  subject: string;
+  breaking: boolean;
+  /** Text of BREAKING CHANGE footers, or the subject for a bare `!`. */
+  breakingNotes: string[];
+}
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string;
+}
+
+export type ReleaseType = "major" | "minor" | "patch";
+
+/** Section titles, in the order they appear in a changelog. */
+const SECTION_TITLES: Record<string, string> = {
+  feat: "Features",
+  fix: "Bug Fixes",
+  perf: "Performance",
+  revert: "Reverts",
+  refactor: "Refactoring",
+  docs: "Documentation",
+  style: "Style",
+  test: "Tests",
+  build: "Build",
+  ci: "CI",
+  chore: "Chores",
+};
+
+const OTHER_SECTION = "Other Changes";
+const CHANGELOG_TITLE = "# Changelog";
+
+const HEADER = /^(\w+)(?:\(([^()\r\n]+)\))?(!)?: (.+)$/;
+const BREAKING_FOOTER =
+  /(?:^|\n)BREAKING[ -]CHANGE: ([\s\S]*?)(?=\n[\w-]+: |\n\n|$)/;
+
+/** Splits a commit into its Conventional Commits parts. */
+export function parseConventionalCommit(commit: {
+  hash: string;
+  subject: string;
+  body: string;
+}): ChangelogEntry {
+  const match = HEADER.exec(commit.subject);
+  const footer = BREAKING_FOOTER.exec(commit.body);
+  const notes = footer ? [footer[1]!.trim()] : [];
+
+  if (!match) {
+    return {
+      hash: commit.hash,
+      type: "",
+      scope: null,
+      subject: commit.subject,
+      breaking: notes.length > 0,
+      breakingNotes: notes,
+    };
+  }
+  const [, type, scope, bang, subject] = match;
+  const breaking = Boolean(bang) || notes.length > 0;
+  return {
+    hash: commit.hash,
+    type: type!.toLowerCase(),
+    scope: scope ?? null,
+    subject: subject!,
+    breaking,
+    breakingNotes: breaking && !notes.length ? [subject!] : notes,
+  };
+}
+
+/** Non-merge commits in `from..to` (everything up to `to` without `from`). */
+export function collectEntries(
+  from: string | undefined,
+  to: string,
+  cwd: string = process.cwd()
+): ChangelogEntry[] {
+  const range = from ? `${from}..${to}` : to;
+  const output = runGitChecked(
+    ["log", "--no-merges", `--format=${LOG_FORMAT}`, range],
+    { cwd }
+  ).stdout;
+  return parseLog(output).map(parseConventionalCommit);
+}
+
+export function parseVersion(tag: string, prefix: string): SemVer | null {
+  if (!tag.startsWith(prefix)) return null;
+  const match = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/.exec(
+    tag.slice(prefix.length)
+  );
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4],
+  };
+}
+
+export function formatVersion(version: SemVer, prefix = ""): string {
+  const { major, minor, patch, prerelease } = version;
+  return `${prefix}${major}.${minor}.${patch}${
+    prerelease ? `-${prerelease}` : ""
+  }`;
+}
+
+/**
+ * SemVer precedence: numeric fields first, then a prerelease sorts below
+ * its release, and prerelease identifiers compare numerically when they
+ * are numbers.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (diff || a.prerelease === b.prerelease) return diff;
+  if (!a.prerelease) return 1;
+  if (!b.prerelease) return -1;
+
+  const left = a.prerelease.split(".");
+  const right = b.prerelease.split(".");
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const [x, y] = [left[i]!, right[i]!];
+    if (x === y) continue;
+    const [xNum, yNum] = [/^\d+$/.test(x), /^\d+$/.test(y)];
+    if (xNum && yNum) return Number(x) - Number(y);
+    if (xNum !== yNum) return xNum ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return left.length - right.length;
+}
+
+/** Highest version tag reachable from `ref`, if any. */
+export function latestVersionTag(
+  prefix: string,
+  ref = "HEAD",
+  cwd: string = process.cwd()
+): string | undefined {
+  // Sorted here rather than with --sort=v:refname, which ranks v1.0.0-rc.1
+  // above v1.0.0.
+  const result = runGit(["tag", "--merged", ref, "--list", `${prefix}*`], {
+    cwd,
+  });
+  if (result.return_code !== 0) return undefined;
+  let latest: { tag: string; version: SemVer } | undefined;
+  for (const tag of result.stdout.split("\n")) {
+    const version = parseVersion(tag, prefix);
+    if (version && (!latest || compareVersions(version, latest.version) > 0))
+      latest = { tag, version };
+  }
+  return latest?.tag;
+}
+
+/**
+ * Bump implied by the commits: breaking changes are major, features minor,
+ * anything else patch. Before 1.0.0 everything shifts down one level, so a
+ * breaking change bumps the minor version. The first release is 0.1.0.
+ */
+export function releaseType(
+  entries: ChangelogEntry[],
+  current: SemVer | null
+): ReleaseType {
+  if (!current) return "minor";
+  const bump: ReleaseType = entries.some((e) => e.breaking)
+    ? "major"
+    : entries.some((e) => e.type === "feat")
+    ? "minor"
+    : "patch";
+  if (current.major === 0) {
+    return bump === "major" ? "minor" : "patch";
+  }
+  return bump;
+}
+
+/**
+ * Applies a bump to `current`, or to 0.0.0 when there is no release yet.
+ * A prerelease is released as its own version when that is already at the
+ * requested level, as `npm version` does: 2.0.0-rc.1 becomes 2.0.0 for any
+ * level, 1.2.0-rc.1 becomes 2.0.0 for major but 1.2.0 for minor.
+ */
+export function bumpVersion(current: SemVer | null, type: ReleaseType): SemVer {
+  const { major, minor, patch, prerelease } = current ?? {
+    major: 0,
+    minor: 0,
+    patch: 0,
+  };
+  if (type === "major") {
+    return prerelease && !minor && !patch
+      ? { major, minor, patch }
+      : { major: major + 1, minor: 0, patch: 0 };
+  }
+  if (type === "minor") {
+    return prerelease && !patch
+      ? { major, minor, patch }
+      : { major, minor: minor + 1, patch: 0 };
+  }
+  return prerelease
+    ? { major, minor, patch }
+    : { major, minor, patch: patch + 1 };
+}
+
+function formatEntry(entry: ChangelogEntry): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : "";
+  return `- ${scope}${entry.subject} (${entry.hash.slice(0, 7)})`;
+}
+
+/**
+ * The body of a changelog section: breaking changes first, then one `###`
+ * section per commit type, entries sorted by scope.
+ */
+export function renderChangelogBody(entries: ChangelogEntry[]): string {
+  const sections: string[] = [];
+
+  const breaking = entries.filter((e) => e.breaking);
+  if (breaking.length) {
+    sections.push(
+      [
+        "### ⚠ BREAKING CHANGES",
+        ...breaking.flatMap((e) =>
+          e.breakingNotes.map((note) => {
+            const scope = e.scope ? `**${e.scope}:** ` : "";
+            return `- ${scope}${note.replace(/\n/g, "\n  ")}`;
+          })
+        ),
+      ].join("\n")
+    );
+  }
+
+  const byTitle = new Map<string, ChangelogEntry[]>();
+  for (const entry of entries) {
+    const title = SECTION_TITLES[entry.type] ?? OTHER_SECTION;
+    byTitle.set(title, [...(byTitle.get(title) ?? []), entry]);
+  }
+  for (const title of [...Object.values(SECTION_TITLES), OTHER_SECTION]) {
+    const group = byTitle.get(title);
+    if (!group) continue;
+    // Scope-less entries first, then alphabetically; stable within a scope.
+    const sorted = [...group].sort((a, b) =>
+      (a.scope ?? "").localeCompare(b.scope ?? "")
+    );
+    sections.push([`### ${title}`, ...sorted.map(formatEntry)].join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+export function renderChangelogSection(
+  heading: string,
+  body: string,
+  date = new Date()
+): string {
+  return `## ${heading} (${date
+    .toISOString()
+    .slice(0, 10)})\n\n${body.trim()}\n`;
+}
+
+/**
+ * Inserts a section at the top of a changelog file, below its title,
+ * creating the file if needed. An existing section for the same heading is
+ * replaced, so re-running for an unreleased version does not duplicate it.
+ */
+export function prependChangelog(file: string, section: string) {
+  const existing = fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : "";
+  let rest = existing.trimStart();
+  if (rest.startsWith(CHANGELOG_TITLE)) {
+    rest = rest.slice(rest.indexOf("\n") + 1 || rest.length).trimStart();
+  }
+  const heading = section
+    .trimStart()
+    .split("\n")[0]!
+    .replace(/ \(.*$/, " (");
+  rest = rest
+    .split(/^(?=## )/m)
+    .filter((part) => !part.startsWith(heading))
+    .join("");
+
+  const content = [CHANGELOG_TITLE, section.trim(), rest.trim()]
+    .filter(Boolean)
+    .join("\n\n");
+  fs.writeFileSync(file, content + "\n");
+}
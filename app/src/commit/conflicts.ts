@@ -0,0 +1,167 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { runGit, runGitChecked } from "../server/git";
+
+export interface ConflictHunk {
+  /** 1-based line of the `<<<<<<<` marker. */
+  line: number;
+  oursLabel: string;
+  theirsLabel: string;
+  ours: string[];
+  /** Common ancestor lines; only present with diff3/zdiff3 markers. */
+  base: string[] | null;
+  theirs: string[];
+  /** The hunk exactly as it appears in the file, markers included. */
+  raw: string[];
+}
+
+export type ConflictSegment =
+  | { kind: "text"; lines: string[] }
+  | { kind: "conflict"; hunk: ConflictHunk };
+
+export type MergeOperation = "merge" | "rebase" | "cherry-pick" | "revert";
+
+export const ConflictResolutionSchema = z.object({
+  resolution: z.string(),
+  explanation: z.string().default(""),
+});
+
+export type ConflictResolution = z.infer<typeof ConflictResolutionSchema>;
+
+const MARKER = {
+  start: /^<{7}(?: (.*))?$/,
+  base: /^\|{7}(?: (.*))?$/,
+  split: /^={7}$/,
+  end: /^>{7}(?: (.*))?$/,
+};
+
+/**
+ * Splits a file with conflict markers into plain text and conflict hunks.
+ * Returns null when a hunk is left unterminated, since the markers cannot
+ * be trusted then.
+ */
+export function parseConflicts(content: string): ConflictSegment[] | null {
+  const lines = content.split("\n");
+  const segments: ConflictSegment[] = [];
+  let text: string[] = [];
+  let hunk: ConflictHunk | null = null;
+  let part: "ours" | "base" | "theirs" = "ours";
+
+  lines.forEach((raw, i) => {
+    const line = raw.replace(/\r$/, "");
+    if (!hunk) {
+      const start = MARKER.start.exec(line);
+      if (!start) {
+        text.push(raw);
+        return;
+      }
+      if (text.length) segments.push({ kind: "text", lines: text });
+      text = [];
+      hunk = {
+        line: i + 1,
+        oursLabel: start[1] ?? "ours",
+        theirsLabel: "theirs",
+        ours: [],
+        base: null,
+        theirs: [],
+        raw: [raw],
+      };
+      part = "ours";
+      return;
+    }
+
+    hunk.raw.push(raw);
+    const end = MARKER.end.exec(line);
+    if (part === "ours" && MARKER.base.test(line)) {
+      hunk.base = [];
+      part = "base";
+    } else if (part !== "theirs" && MARKER.split.test(line)) {
+      part = "theirs";
+    } else if (part === "theirs" && end) {
+      hunk.theirsLabel = end[1] ?? "theirs";
+      segments.push({ kind: "conflict", hunk });
+      hunk = null;
+    } else if (part === "base") {
+      hunk.base!.push(raw);
+    } else {
+      hunk[part].push(raw);
+    }
+  });
+
+  if (hunk) return null;
+  if (text.length) segments.push({ kind: "text", lines: text });
+  return segments;
+}
+
+export function conflictHunks(segments: ConflictSegment[]): ConflictHunk[] {
+  return segments.flatMap((s) => (s.kind === "conflict" ? [s.hunk] : []));
+}
+
+/**
+ * Reassembles a file, replacing each hunk that has a resolution (by hunk
+ * index) and keeping the markers of the others.
+ */
+export function applyResolutions(
+  segments: ConflictSegment[],
+  resolutions: Map<number, string[]>
+): string {
+  let index = 0;
+  return segments
+    .flatMap((segment) => {
+      if (segment.kind === "text") return segment.lines;
+      const resolved = resolutions.get(index++);
+      return resolved ?? segment.hunk.raw;
+    })
+    .join("\n");
+}
+
+/** The lines of a resolution as they replace a hunk. */
+export function resolutionLines(resolution: string): string[] {
+  const text = resolution.replace(/\r\n/g, "\n");
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+/** Paths with unmerged entries in the index, relative to the repo root. */
+export function conflictedFiles(cwd: string = process.cwd()): string[] {
+  const output = runGitChecked(
+    ["diff", "--name-only", "--diff-filter=U", "-z"],
+    { cwd }
+  ).stdout;
+  return [...new Set(output.split("\0").filter(Boolean))];
+}
+
+/** The operation that stopped on conflicts, if any. */
+export function mergeOperation(
+  cwd: string = process.cwd()
+): MergeOperation | null {
+  const gitDir = runGit(["rev-parse", "--absolute-git-dir"], { cwd }).stdout;
+  if (!gitDir) return null;
+  const exists = (name: string) => fs.existsSync(path.join(gitDir, name));
+  if (exists("rebase-merge") || exists("rebase-apply")) return "rebase";
+  if (exists("CHERRY_PICK_HEAD")) return "cherry-pick";
+  if (exists("REVERT_HEAD")) return "revert";
+  if (exists("MERGE_HEAD")) return "merge";
+  return null;
+}
+
+/** Extracts the JSON resolution object from a model reply. */
+export function parseResolution(text: string): ConflictResolution {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err: any) {
+    throw new Error(`The model returned malformed JSON: ${err.message}`);
+  }
+  const result = ConflictResolutionSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The model returned an invalid resolution:\n${z.prettifyError(
+        result.error
+      )}`
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,159 @@
+import path from "path";
+import { z } from "zod";
+import type { Settings } from "../config/settings";
+
+export const CommitFooterSchema = z.object({
+  token: z.string(),
+  value: z.string(),
+});
+
+export const CommitCandidateSchema = z.object({
+  type: z.string().default(""),
+  scope: z.string().nullish(),
+  subject: z.string(),
+  body: z.string().nullish(),
+  footers: z.array(CommitFooterSchema).default([]),
+  breaking: z.boolean().default(false),
+});
+
+export type CommitFooter = z.infer<typeof CommitFooterSchema>;
+export type CommitCandidate = z.infer<typeof CommitCandidateSchema>;
+export type CommitConventions = Settings["commit"];
+
+const FOOTER_TOKEN = /^(BREAKING CHANGE|BREAKING-CHANGE|[A-Za-z][\w-]*)$/;
+
+export function formatHeader(candidate: CommitCandidate): string {
+  if (!candidate.type) return candidate.subject;
+  const scope = candidate.scope ? `(${candidate.scope})` : "";
+  const bang = candidate.breaking ? "!" : "";
+  return `${candidate.type}${scope}${bang}: ${candidate.subject}`;
+}
+
+/**
+ * Renders a candidate as a full commit message: header, body and footers
+ * separated by blank lines.
+ */
+export function formatCommitMessage(candidate: CommitCandidate): string {
+  const parts = [formatHeader(candidate)];
+  if (candidate.body?.trim()) parts.push(candidate.body.trim());
+  if (candidate.footers.length) {
+    parts.push(
+      candidate.footers
+        .map(({ token, value }) => `${token}: ${value}`)
+        .join("\n")
+    );
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Prompt placeholders describing the configured convention: `convention`,
+ * `rules`, `types` and `maxHeaderLength`.
+ */
+export function conventionVars(conventions: CommitConventions) {
+  const { convention, types, maxHeaderLength } = conventions;
+  return {
+    convention:
+      convention === "conventional"
+        ? "Conventional Commits"
+        : "the usual git conventions",
+    rules:
+      convention === "conventional"
+        ? `Use one of these types: ${types.join(
+            ", "
+          )}. Keep the header under ${maxHeaderLength} characters.`
+        : `Leave "type" and "scope" empty and keep the subject under ${maxHeaderLength} characters.`,
+    types: types.join(", "),
+    maxHeaderLength,
+  };
+}
+
+/**
+ * Checks a candidate against the Conventional Commits rules and the
+ * configured header limit. Returns the problems found; empty means valid.
+ */
+export function validateCandidate(
+  candidate: CommitCandidate,
+  conventions: CommitConventions
+): string[] {
+  const problems: string[] = [];
+  const header = formatHeader(candidate);
+
+  if (conventions.convention === "conventional") {
+    if (!candidate.type) problems.push("missing type");
+    else if (!conventions.types.includes(candidate.type))
+      problems.push(
+        `type '${candidate.type}' is not one of ${conventions.types.join(", ")}`
+      );
+    if (candidate.scope && !/^[\w./-]+$/.test(candidate.scope))
+      problems.push(`scope '${candidate.scope}' must be a single word`);
+  }
+
+  const subject = candidate.subject.trim();
+  if (!subject) problems.push("empty subject");
+  if (subject.endsWith(".")) problems.push("subject ends with a period");
+  if (/[\r\n]/.test(subject)) problems.push("subject spans several lines");
+  if (header.length > conventions.maxHeaderLength)
+    problems.push(
+      `header is ${header.length} characters (limit ${conventions.maxHeaderLength})`
+    );
+
+  for (const footer of candidate.footers) {
+    if (!FOOTER_TOKEN.test(footer.token))
+      problems.push(`invalid footer token '${footer.token}'`);
+  }
+  return problems;
+}
+
+/**
+ * Picks the scope for a set of changed paths from the `commit.scopes` map
+ * (glob or directory prefix -> scope; first matching entry wins). Returns
+ * the scope most files map to, or undefined when none match or the top
+ * scopes tie.
+ */
+export function inferScope(
+  paths: string[],
+  scopes: Record<string, string>
+): string | undefined {
+  const counts = new Map<string, number>();
+  for (const file of paths) {
+    const match = Object.entries(scopes).find(
+      ([pattern]) =>
+        path.matchesGlob(file, pattern) ||
+        file.startsWith(pattern.replace(/\/?$/, "/"))
+    );
+    if (match) counts.set(match[1], (counts.get(match[1]) ?? 0) + 1);
+  }
+
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  const [first, second] = ranked;
+  if (!first || (second && second[1] === first[1])) return undefined;
+  return first[0];
+}
+
+/**
+ * Extracts the JSON array of candidates from a model reply, tolerating
+ * code fences and surrounding prose.
+ */
+export function parseCandidates(text: string): CommitCandidate[] {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new Error("The model did not return a JSON array of candidates");
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err: any) {
+    throw new Error(`The model returned malformed JSON: ${err.message}`);
+  }
+
+  const result = z.array(CommitCandidateSchema).safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The model returned invalid candidates:\n${z.prettifyError(result.error)}`
+    );
+  }
+  return result.data;
+}
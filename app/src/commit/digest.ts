@@ -0,0 +1,179 @@
+import path from "path";
+import { buildPrompt } from "../config/prompts";
+import type { Settings } from "../config/settings";
+import { contextTokens, type LLMProvider } from "../providers";
+import { splitFileDiffs } from "./split";
+
+/** Upper bound on a derived budget, so huge context windows stay cheap. */
+const MAX_DERIVED_BUDGET = 100_000;
+
+export interface FileDiff {
+  path: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  /** Matched a `diff.exclude` glob; only its stats reach the prompt. */
+  excluded: boolean;
+  /** At least one hunk was cut to `diff.maxHunkLines`. */
+  truncated: boolean;
+  /** Patch text as it goes into prompts. */
+  text: string;
+}
+
+export interface DiffDigest {
+  /** Stats followed by the diff, or by per-file summaries when too large. */
+  text: string;
+  files: FileDiff[];
+  summarized: boolean;
+}
+
+/** Rough token count; about four characters per token for code. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens a diff may use in one prompt: `diff.tokenBudget` if set, else half
+ * the model's context window, leaving room for instructions and the reply.
+ */
+export function diffTokenBudget(model: string, configured?: number): number {
+  return configured ?? Math.min(contextTokens(model) / 2, MAX_DERIVED_BUDGET);
+}
+
+function truncateHunks(text: string, maxLines: number) {
+  let truncated = false;
+  const parts = text.split(/^(?=@@ )/m).map((part, i) => {
+    const lines = part.split("\n");
+    // Part 0 is the file header; each hunk line count excludes its "@@" line.
+    if (i === 0 || lines.length - 2 <= maxLines) return part;
+    truncated = true;
+    const kept = lines.slice(0, maxLines + 1);
+    return `${kept.join("\n")}\n[... ${
+      lines.length - 2 - maxLines
+    } more lines truncated]\n`;
+  });
+  return { text: parts.join(""), truncated };
+}
+
+/**
+ * Splits a diff per file, counts changed lines, and prepares each file for
+ * prompting: excluded files are dropped, binary patches replaced by a note,
+ * and hunks longer than `maxHunkLines` cut short.
+ */
+export function preprocessDiff(
+  diff: string,
+  options: Settings["diff"]
+): FileDiff[] {
+  return splitFileDiffs(diff).map(({ path: file, text }) => {
+    const firstHunk = text.search(/^@@ /m);
+    const body = firstHunk === -1 ? "" : text.slice(firstHunk);
+    const lines = body.split("\n");
+    const binaryAt = text.search(
+      /^(GIT binary patch|Binary files .* differ)$/m
+    );
+
+    const entry: FileDiff = {
+      path: file,
+      additions: lines.filter((l) => l.startsWith("+")).length,
+      deletions: lines.filter((l) => l.startsWith("-")).length,
+      binary: binaryAt !== -1,
+      excluded: options.exclude.some((glob) => path.matchesGlob(file, glob)),
+      truncated: false,
+      text: "",
+    };
+
+    if (entry.excluded) return entry;
+    if (entry.binary) {
+      entry.text = `${text.slice(0, binaryAt)}(binary file changed)\n`;
+      return entry;
+    }
+    const { text: cut, truncated } = truncateHunks(text, options.maxHunkLines);
+    entry.text = cut;
+    entry.truncated = truncated;
+    return entry;
+  });
+}
+
+/** `git diff --stat`-like lines, noting what was left out or cut. */
+export function formatStats(files: FileDiff[]): string {
+  const lines = files.map((file) => {
+    const notes = [
+      file.excluded && "excluded",
+      file.binary && "binary",
+      file.truncated && "truncated",
+    ].filter(Boolean);
+    const counts = file.binary ? "" : ` +${file.additions} -${file.deletions}`;
+    return `${file.path} |${counts}${
+      notes.length ? ` (${notes.join(", ")})` : ""
+    }`;
+  });
+  const additions = files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+  lines.push(`${files.length} file(s) changed, +${additions} -${deletions}`);
+  return lines.join("\n");
+}
+
+function clip(text: string, tokens: number): string {
+  const chars = tokens * 4;
+  return text.length > chars
+    ? `${text.slice(0, chars)}\n[... truncated to fit the token budget]\n`
+    : text;
+}
+
+/** Groups file patches into batches of at most `budget` tokens each. */
+function batchFiles(files: FileDiff[], budget: number): string[] {
+  const batches: string[] = [];
+  let current = "";
+  for (const file of files) {
+    if (!file.text) continue;
+    const text = clip(file.text, budget);
+    if (current && estimateTokens(current + text) > budget) {
+      batches.push(current);
+      current = "";
+    }
+    current += text;
+  }
+  if (current) batches.push(current);
+  return batches;
+}
+
+/**
+ * Turns a staged diff into prompt text that fits the model's budget. Small
+ * diffs pass through after preprocessing; larger ones are summarized in
+ * batches of files (map) and the summaries combined with the stats (reduce).
+ */
+export async function digestDiff(
+  diff: string,
+  provider: LLMProvider,
+  settings: Settings,
+  onProgress?: (done: number, total: number) => void
+): Promise<DiffDigest> {
+  const files = preprocessDiff(diff, settings.diff);
+  const budget = diffTokenBudget(provider.model, settings.diff.tokenBudget);
+  const stats = formatStats(files);
+
+  const full = `${stats}\n\n${files.map((f) => f.text).join("")}`;
+  if (estimateTokens(full) <= budget) {
+    return { text: full, files, summarized: false };
+  }
+
+  const batches = batchFiles(files, budget);
+  const summaries: string[] = [];
+  for (const [i, batch] of batches.entries()) {
+    onProgress?.(i, batches.length);
+    const response = await provider.generate({
+      messages: [
+        {
+          role: "user",
+          text: buildPrompt(settings, "summarizeDiff", { diff: batch }),
+        },
+      ],
+    });
+    summaries.push(response.text.trim());
+  }
+
+  const text = `${stats}\n\nThe full diff is too large to include. Summaries of the changes per file:\n${summaries.join(
+    "\n"
+  )}`;
+  return { text: clip(text, budget), files, summarized: true };
+}
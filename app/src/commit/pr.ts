@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { runGit, runGitChecked } from "../server/git";
+
+export const PrDescriptionSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  changes: z.array(z.string()).default([]),
+  testing: z.array(z.string()).default([]),
+  breaking: z.array(z.string()).default([]),
+});
+
+export type PrDescription = z.infer<typeof PrDescriptionSchema>;
+
+/**
+ * The branch a pull request would target when `--base` is not given: the
+ * remote's default branch if known, else a local main or master.
+ */
+export function defaultBaseBranch(cwd: string = process.cwd()): string {
+  const remoteHead = runGit(
+    ["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"],
+    { cwd }
+  );
+  if (remoteHead.return_code === 0 && remoteHead.stdout) {
+    return remoteHead.stdout;
+  }
+  for (const candidate of ["main", "master"]) {
+    const exists = runGit(
+      ["rev-parse", "--verify", "--quiet", `refs/heads/${candidate}`],
+      { cwd }
+    );
+    if (exists.return_code === 0) return candidate;
+  }
+  throw new Error(
+    "Could not tell which branch to compare against; pass --base"
+  );
+}
+
+/** Commit at which the current branch forked from `base`. */
+export function mergeBase(base: string, cwd: string = process.cwd()): string {
+  const exists = runGit(
+    ["rev-parse", "--verify", "--quiet", `${base}^{commit}`],
+    {
+      cwd,
+    }
+  );
+  if (exists.return_code !== 0) {
+    throw new Error(`Unknown base '${base}'`);
+  }
+  return runGitChecked(["merge-base", base, "HEAD"], { cwd }).stdout;
+}
+
+/** Extracts the JSON object of a description from a model reply. */
+export function parsePrDescription(text: string): PrDescription {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err: any) {
+    throw new Error(`The model returned malformed JSON: ${err.message}`);
+  }
+  const result = PrDescriptionSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The model returned an invalid description:\n${z.prettifyError(
+        result.error
+      )}`
+    );
+  }
+  return result.data;
+}
+
+/** Renders a description as Markdown, title first as a heading. */
+export function renderPrMarkdown(pr: PrDescription): string {
+  const list = (items: string[], empty: string) =>
+    items.length ? items.map((item) => `- ${item}`).join("\n") : empty;
+
+  return (
+    [
+      `# ${pr.title}`,
+      "## Summary",
+      pr.summary.trim(),
+      "## Notable changes",
+      list(pr.changes, "_None._"),
+      "## Testing",
+      list(pr.testing, "_Not described._"),
+      "## Breaking changes",
+      list(pr.breaking, "None."),
+    ].join("\n\n") + "\n"
+  );
+}
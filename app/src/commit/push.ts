@@ -0,0 +1,343 @@
+import path from "path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import ora from "ora";
+import type { Settings } from "../config/settings";
+import { EMOJI, formatError } from "../commands/utils";
+import {
+  GitError,
+  parseStatusV2,
+  runGit,
+  runGitChecked,
+  type GitResult,
+} from "../server/git";
+
+/** A fetch that takes longer than this skips the ahead/behind check. */
+const FETCH_TIMEOUT_MS = 30_000;
+
+export interface PushOptions {
+  /** `--remote`; defaults to the upstream's remote, then `push.remote`. */
+  remote?: string;
+  /** Answer prompts non-interactively: never rebase or pull unasked. */
+  yes?: boolean;
+}
+
+export interface PushPlan {
+  branch: string;
+  remote: string;
+  /** True on the first push, when the branch has no upstream yet. */
+  setUpstream: boolean;
+  /** The upstream, e.g. "origin/main", when pushing to its remote. */
+  upstream: string | null;
+  /** Full argv, e.g. ["push", "-u", "origin", "feature"]. */
+  args: string[];
+}
+
+export interface PushErrorExplanation {
+  reason: string;
+  suggestions: string[];
+}
+
+const git = (args: string[], input?: string): GitResult =>
+  runGitChecked(args, { cwd: process.cwd(), input });
+
+/** Whether `branch` matches one of the `protectedBranches` names or globs. */
+export function isProtectedBranch(branch: string, patterns: string[]): boolean {
+  return patterns.some(
+    (pattern) => pattern === branch || path.matchesGlob(branch, pattern)
+  );
+}
+
+/**
+ * Works out where the current branch would be pushed, without network
+ * access. Throws on detached HEAD, protected branches and unknown remotes.
+ */
+export function planPush(
+  settings: Settings,
+  options: PushOptions = {}
+): PushPlan {
+  const { branch: head } = parseStatusV2(
+    git(["status", "--porcelain=v2", "--branch", "-z", "--untracked-files=no"])
+      .stdout
+  );
+  const branch = head.head;
+  if (!branch) {
+    throw new Error(
+      "HEAD is detached, so there is no branch to push. Create one first:\n  git switch -c <branch>"
+    );
+  }
+  if (isProtectedBranch(branch, settings.protectedBranches)) {
+    throw new Error(
+      `Refusing to push to protected branch '${branch}'. Push from a feature branch and open a pull request instead:\n  git switch -c <branch>`
+    );
+  }
+
+  const remotes = git(["remote"]).stdout.split("\n").filter(Boolean);
+  if (!remotes.length) {
+    throw new Error(
+      "This repository has no remotes. Add one first:\n  git remote add origin <repository-url>"
+    );
+  }
+
+  const upstreamRemote = head.upstream
+    ? runGit(["config", `branch.${branch}.remote`], { cwd: process.cwd() })
+        .stdout || null
+    : null;
+  const remote =
+    options.remote ??
+    upstreamRemote ??
+    (remotes.includes(settings.push.remote)
+      ? settings.push.remote
+      : remotes.length === 1
+      ? remotes[0]!
+      : settings.push.remote);
+  if (!remotes.includes(remote)) {
+    throw new Error(
+      `Unknown remote '${remote}'. Available remotes: ${remotes.join(", ")}`
+    );
+  }
+
+  const setUpstream = !head.upstream;
+  return {
+    branch,
+    remote,
+    setUpstream,
+    upstream: upstreamRemote === remote ? head.upstream : null,
+    args: ["push", ...(setUpstream ? ["-u"] : []), remote, branch],
+  };
+}
+
+/**
+ * Maps git's push errors to a short reason and the commands that usually
+ * fix them. Returns null for errors it does not recognise.
+ */
+export function explainPushError(
+  stderr: string,
+  plan: Pick<PushPlan, "remote" | "branch">
+): PushErrorExplanation | null {
+  const { remote, branch } = plan;
+  if (/non-fast-forward|fetch first|Updates were rejected/i.test(stderr)) {
+    return {
+      reason: `${remote}/${branch} has commits that are not in your branch`,
+      suggestions: [
+        `git pull --rebase ${remote} ${branch}`,
+        `git push ${remote} ${branch}`,
+      ],
+    };
+  }
+  if (/protected branch|GH006|pre-receive hook declined/i.test(stderr)) {
+    return {
+      reason: `The server does not accept direct pushes to '${branch}'`,
+      suggestions: ["git switch -c <branch>", "gfts pr-describe"],
+    };
+  }
+  if (
+    /Authentication failed|Permission denied|could not read Username|returned error: 40[13]/i.test(
+      stderr
+    )
+  ) {
+    return {
+      reason: `You are not authorised to push to '${remote}'`,
+      suggestions: [
+        "Check your credentials, token or SSH key",
+        `git remote get-url ${remote}`,
+      ],
+    };
+  }
+  if (
+    /Could not resolve host|Connection (timed out|refused)|unable to access/i.test(
+      stderr
+    )
+  ) {
+    return {
+      reason: `Could not reach '${remote}'`,
+      suggestions: ["Check your network connection or proxy settings"],
+    };
+  }
+  if (
+    /does not appear to be a git repository|Repository not found|Could not read from remote repository/i.test(
+      stderr
+    )
+  ) {
+    return {
+      reason: `'${remote}' does not point to a repository you can reach`,
+      suggestions: [
+        "git remote -v",
+        `git remote set-url ${remote} <repository-url>`,
+      ],
+    };
+  }
+  if (/GH001|exceeds .*file size limit|Large files detected/i.test(stderr)) {
+    return {
+      reason: "The push contains files larger than the server accepts",
+      suggestions: ["git lfs track <pattern>", "git lfs migrate import"],
+    };
+  }
+  return null;
+}
+
+/**
+ * Counts commits ahead of and behind the upstream after fetching it.
+ * Returns null when there is no upstream yet.
+ */
+function aheadBehind(plan: PushPlan): { ahead: number; behind: number } | null {
+  if (!plan.upstream) return null;
+  runGit(["fetch", "--quiet", plan.remote, plan.branch], {
+    cwd: process.cwd(),
+    timeoutMs: FETCH_TIMEOUT_MS,
+  });
+  const counts = runGit(
+    ["rev-list", "--left-right", "--count", `HEAD...${plan.upstream}`],
+    { cwd: process.cwd() }
+  );
+  if (counts.return_code !== 0) return null;
+  const [ahead = 0, behind = 0] = counts.stdout.split(/\s+/).map(Number);
+  return { ahead, behind };
+}
+
+/**
+ * Offers to bring a branch that is behind its upstream up to date. Returns
+ * false when the push should be skipped.
+ */
+async function catchUp(plan: PushPlan, behind: number, yes: boolean) {
+  const upstream = plan.upstream ?? `${plan.remote}/${plan.branch}`;
+  console.log(
+    chalk.yellow(`⚠️  ${plan.branch} is ${behind} commit(s) behind ${upstream}`)
+  );
+
+  if (yes || !process.stdin.isTTY) {
+    console.log(chalk.yellow("Skipping the push. Update the branch first:"));
+    console.log(
+      chalk.cyan(`  git pull --rebase ${plan.remote} ${plan.branch}`)
+    );
+    return false;
+  }
+
+  const { choice } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "choice",
+      message: `How do you want to update ${plan.branch}?`,
+      choices: [
+        { name: `Rebase onto ${upstream}, then push`, value: "rebase" },
+        { name: `Merge ${upstream} (git pull), then push`, value: "merge" },
+        { name: "Skip the push", value: "skip" },
+      ],
+    },
+  ]);
+  if (choice === "skip") return false;
+
+  const args =
+    choice === "rebase"
+      ? ["pull", "--rebase", plan.remote, plan.branch]
+      : ["pull", "--no-rebase", "--no-edit", plan.remote, plan.branch];
+  const result = runGit(args, { cwd: process.cwd() });
+  if (result.return_code !== 0) {
+    throw new Error(
+      `git ${args.join(" ")} failed:\n${
+        result.stderr
+      }\nResolve the conflicts (see gfts resolve), then push again.`
+    );
+  }
+  return true;
+}
+
+/**
+ * Pushes the checked-out branch: sets the upstream on the first push,
+ * checks whether the branch is behind and offers to rebase or merge, and
+ * explains failures. Returns false when the push was skipped.
+ */
+export async function pushCurrentBranch(
+  settings: Settings,
+  options: PushOptions = {}
+): Promise<boolean> {
+  const plan = planPush(settings, options);
+  const target = `${plan.remote}/${plan.branch}`;
+
+  const status = aheadBehind(plan);
+  if (status && status.behind > 0) {
+    if (!(await catchUp(plan, status.behind, options.yes ?? false)))
+      return false;
+  } else if (status && status.ahead === 0) {
+    console.log(chalk.dim(`${target} is already up to date`));
+    return true;
+  }
+
+  const pushSpinner = ora({
+    text: `Pushing to ${target}${
+      plan.setUpstream ? " (setting upstream)" : ""
+    }`,
+    color: "blue",
+  }).start();
+
+  try {
+    git(plan.args);
+  } catch (error) {
+    pushSpinner.fail(chalk.red(`Push to ${target} failed`));
+    const explanation =
+      error instanceof GitError
+        ? explainPushError(error.result.stderr, plan)
+        : null;
+    if (explanation) {
+      console.log(chalk.yellow(`\n${explanation.reason}. Suggestion:`));
+      for (const suggestion of explanation.suggestions) {
+        console.log(chalk.cyan(`  ${suggestion}`));
+      }
+    }
+    throw error;
+  }
+  pushSpinner.succeed(
+    chalk.green(`${EMOJI.SUCCESS} Changes pushed to ${target}`)
+  );
+  return true;
+}
+
+/**
+ * Runs planPush's checks before anything is committed, so a protected
+ * branch, detached HEAD or missing remote stops the command up front.
+ * Prints the reason and sets a failing exit code; returns false then.
+ */
+export function checkPushable(
+  settings: Settings,
+  options: PushOptions = {}
+): boolean {
+  try {
+    planPush(settings, options);
+    return true;
+  } catch (error) {
+    console.error(chalk.red(`${EMOJI.ERROR} ${formatError(error)}`));
+    console.log(
+      chalk.yellow(
+        "Nothing was committed. Rerun with --no-push to commit without pushing."
+      )
+    );
+    process.exitCode = 1;
+    return false;
+  }
+}
+
+/**
+ * Pushes once the commits exist. A failure is reported rather than thrown,
+ * since the commits stand and only the push needs redoing.
+ */
+export async function pushAfterCommit(
+  settings: Settings,
+  options: PushOptions = {}
+): Promise<boolean> {
+  try {
+    return await pushCurrentBranch(settings, options);
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `\n${
+          EMOJI.ERROR
+        } The commit was created, but the push was skipped: ${formatError(
+          error
+        )}`
+      )
+    );
+    console.log(chalk.yellow("Push it later with: git push"));
+    process.exitCode = 1;
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { buildPrompt } from "../config/prompts";
+import type { Settings } from "../config/settings";
+import type { LLMProvider } from "../providers";
+
+export const SEVERITIES = ["low", "medium", "high"] as const;
+export const CATEGORIES = ["bug", "security", "style", "tests"] as const;
+
+export const FindingSchema = z.object({
+  file: z.string().min(1),
+  startLine: z.number().int().min(1),
+  endLine: z.number().int().min(1).optional(),
+  severity: z.enum(SEVERITIES),
+  category: z.enum(CATEGORIES),
+  message: z.string().min(1),
+  suggestion: z.string().default(""),
+});
+
+export type Finding = z.infer<typeof FindingSchema>;
+export type Severity = (typeof SEVERITIES)[number];
+
+const SARIF_LEVELS: Record<Severity, string> = {
+  low: "note",
+  medium: "warning",
+  high: "error",
+};
+
+const RULE_DESCRIPTIONS: Record<Finding["category"], string> = {
+  bug: "Likely defect in the changed code",
+  security: "Security issue in the changed code",
+  style: "Readability or style issue",
+  tests: "Missing or broken tests",
+};
+
+/**
+ * Extracts the JSON array of findings from a model reply, tolerating code
+ * fences and surrounding prose.
+ */
+export function parseFindings(text: string): Finding[] {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new Error("The model did not return a JSON array of findings");
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err: any) {
+    throw new Error(`The model returned malformed JSON: ${err.message}`);
+  }
+
+  const result = z.array(FindingSchema).safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The model returned invalid findings:\n${z.prettifyError(result.error)}`
+    );
+  }
+  return result.data.map((f) => ({
+    ...f,
+    endLine: Math.max(f.endLine ?? f.startLine, f.startLine),
+  }));
+}
+
+/** Asks the model to review a prepared diff; one retry on a bad reply. */
+export async function reviewDiff(
+  diff: string,
+  provider: LLMProvider,
+  settings: Settings
+): Promise<Finding[]> {
+  let prompt = buildPrompt(settings, "reviewDiff", { diff });
+  let problem = "";
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (problem) prompt += `\n\nYour previous reply was rejected: ${problem}`;
+    const response = await provider.generate({
+      messages: [{ role: "user", text: prompt }],
+    });
+    try {
+      return parseFindings(response.text);
+    } catch (err: any) {
+      problem = err.message;
+    }
+  }
+  throw new Error(problem);
+}
+
+/** Findings at or above `threshold`, which block a gated commit. */
+export function blockingFindings(
+  findings: Finding[],
+  threshold: Severity
+): Finding[] {
+  const min = SEVERITIES.indexOf(threshold);
+  return findings.filter((f) => SEVERITIES.indexOf(f.severity) >= min);
+}
+
+/** Most severe first, then by file and line. */
+export function sortFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort(
+    (a, b) =>
+      SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity) ||
+      a.file.localeCompare(b.file) ||
+      a.startLine - b.startLine
+  );
+}
+
+/** Findings as a SARIF 2.1.0 log, one rule per category. */
+export function toSarif(findings: Finding[]) {
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "gfts",
+            rules: CATEGORIES.map((id) => ({
+              id,
+              shortDescription: { text: RULE_DESCRIPTIONS[id] },
+            })),
+          },
+        },
+        results: findings.map((f) => ({
+          ruleId: f.category,
+          level: SARIF_LEVELS[f.severity],
+          message: {
+            text: f.suggestion ? `${f.message}\n\n${f.suggestion}` : f.message,
+          },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: f.file },
+                region: { startLine: f.startLine, endLine: f.endLine },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
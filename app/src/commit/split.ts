@@ -0,0 +1,161 @@
+import { z } from "zod";
+import {
+  CommitCandidateSchema,
+  formatHeader,
+  validateCandidate,
+  type CommitConventions,
+} from "./conventional";
+
+/** Longest slice of a single hunk shown to the model when grouping. */
+const MAX_HUNK_PROMPT_CHARS = 4000;
+
+/**
+ * The smallest piece of a diff that can be committed on its own: one hunk,
+ * or a whole file when it has no text hunks (binary files, mode changes,
+ * empty files) or changes its mode.
+ */
+export interface DiffUnit {
+  id: string;
+  path: string;
+  /** File header: `diff --git`, mode and `---`/`+++` lines. */
+  header: string;
+  /** The hunk, starting at its `@@` line; empty for whole-file units. */
+  body: string;
+}
+
+export const SplitGroupSchema = CommitCandidateSchema.extend({
+  hunks: z.array(z.string()).min(1),
+});
+
+export type SplitGroup = z.infer<typeof SplitGroupSchema>;
+
+function filePath(header: string): string {
+  const target =
+    header.match(/^\+\+\+ b\/(.+)$/m) ??
+    header.match(/^--- a\/(.+)$/m) ??
+    header.match(/^rename to (.+)$/m);
+  if (target?.[1]) return target[1];
+  // No ---/+++ lines (binary or mode-only): "diff --git a/<p> b/<p>".
+  const line = header.split("\n")[0]!.slice("diff --git ".length);
+  return line.slice(2, 2 + (line.length - 5) / 2);
+}
+
+/**
+ * Splits `git diff` output into one patch per file, each ending in a
+ * newline.
+ */
+export function splitFileDiffs(diff: string): { path: string; text: string }[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((f) => f.trim())
+    .map((file) => {
+      let text = file.endsWith("\n") ? file : file + "\n";
+      // Binary patches must end with a blank line, which trimming may drop.
+      if (/^GIT binary patch$/m.test(text) && !text.endsWith("\n\n")) {
+        text += "\n";
+      }
+      const hunk = text.search(/^@@ /m);
+      return { path: filePath(hunk === -1 ? text : text.slice(0, hunk)), text };
+    });
+}
+
+/**
+ * Splits `git diff --no-renames` output into commit units, numbered h1, h2...
+ * in diff order.
+ */
+export function parseDiffUnits(diff: string): DiffUnit[] {
+  const units: DiffUnit[] = [];
+
+  for (const { path, text } of splitFileDiffs(diff)) {
+    const firstHunk = text.search(/^@@ /m);
+    const header = firstHunk === -1 ? text : text.slice(0, firstHunk);
+    const hunks =
+      firstHunk === -1 ? [] : text.slice(firstHunk).split(/^(?=@@ )/m);
+
+    if (!hunks.length || /^(old|new) mode /m.test(header)) {
+      units.push({ id: `h${units.length + 1}`, path, header: text, body: "" });
+      continue;
+    }
+    for (const body of hunks) {
+      units.push({ id: `h${units.length + 1}`, path, header, body });
+    }
+  }
+  return units;
+}
+
+/**
+ * Builds a patch applying `units`, which must keep their diff order. Hunks
+ * of the same file share one header.
+ */
+export function buildPatch(units: DiffUnit[]): string {
+  let patch = "";
+  let current: string | null = null;
+  for (const unit of units) {
+    if (unit.path !== current || !unit.body) patch += unit.header;
+    patch += unit.body;
+    current = unit.body ? unit.path : null;
+  }
+  return patch;
+}
+
+/** Renders the units for the grouping prompt. */
+export function describeUnits(units: DiffUnit[]): string {
+  return units
+    .map((unit) => {
+      const content = unit.body || unit.header;
+      const shown =
+        content.length > MAX_HUNK_PROMPT_CHARS
+          ? `${content.slice(0, MAX_HUNK_PROMPT_CHARS)}\n[... truncated]`
+          : content;
+      return `### [${unit.id}] ${unit.path}\n${shown.trimEnd()}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Parses the model's grouping and checks it: every unit assigned exactly
+ * once, no unknown ids, and a valid message per group. Returns the groups
+ * and the problems found.
+ */
+export function parseSplitGroups(
+  text: string,
+  units: DiffUnit[],
+  conventions: CommitConventions
+): { groups: SplitGroup[]; problems: string[] } {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (err: any) {
+    return { groups: [], problems: [`malformed JSON: ${err.message}`] };
+  }
+
+  const result = z.array(SplitGroupSchema).min(1).safeParse(json);
+  if (!result.success) {
+    return { groups: [], problems: [z.prettifyError(result.error)] };
+  }
+
+  const groups = result.data;
+  const problems: string[] = [];
+  const known = new Set(units.map((u) => u.id));
+  const seen = new Set<string>();
+
+  for (const group of groups) {
+    const header = formatHeader(group);
+    for (const id of group.hunks) {
+      if (!known.has(id)) problems.push(`'${header}' lists unknown unit ${id}`);
+      else if (seen.has(id)) problems.push(`unit ${id} is in several groups`);
+      seen.add(id);
+    }
+    for (const problem of validateCandidate(group, conventions)) {
+      problems.push(`'${header}': ${problem}`);
+    }
+  }
+
+  const missing = units.filter((u) => !seen.has(u.id)).map((u) => u.id);
+  if (missing.length) {
+    problems.push(`units not assigned to any group: ${missing.join(", ")}`);
+  }
+  return { groups, problems };
+}
@@ -0,0 +1,127 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import inquirer from "inquirer";
+import { parseStatusV2, runGitChecked, type GitResult } from "../server/git";
+
+/**
+ * What to stage before committing. With none set, the index is used as
+ * the user left it.
+ */
+export interface StageOptions {
+  /** Stage every change, untracked files included (`-a`). */
+  all?: boolean;
+  /** Stage changes matching these globs (`--paths`). */
+  paths?: string[];
+  /** Choose files interactively (`-p`). */
+  pick?: boolean;
+}
+
+/** Runs git against the chosen index; throws GitError on failure. */
+export type GitRunner = (args: string[], input?: string) => GitResult;
+
+/**
+ * Runs `fn` against the repository index, or for dry runs against a
+ * throwaway copy of it so staging can be previewed without side effects.
+ */
+export async function withIndex<T>(
+  cwd: string,
+  dryRun: boolean,
+  fn: (git: GitRunner) => Promise<T>
+): Promise<T> {
+  if (!dryRun) return fn((args, input) => runGitChecked(args, { cwd, input }));
+
+  const gitDir = runGitChecked(["rev-parse", "--absolute-git-dir"], {
+    cwd,
+  }).stdout;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-index-"));
+  const tmpIndex = path.join(tmpDir, "index");
+  try {
+    const realIndex = path.join(gitDir, "index");
+    if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, tmpIndex);
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    return await fn((args, input) => runGitChecked(args, { cwd, env, input }));
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Resolves `-p` by asking which changed files to stage; the answer comes
+ * back as literal `paths`. Other options pass through unchanged.
+ */
+export async function resolveStageOptions(
+  options: StageOptions,
+  cwd: string = process.cwd()
+): Promise<StageOptions> {
+  const chosen = [options.all, options.paths?.length, options.pick].filter(
+    Boolean
+  );
+  if (chosen.length > 1) {
+    throw new Error("Use only one of -a/--all, --paths and -p/--pick");
+  }
+  if (!options.pick) return options;
+
+  if (!process.stdin.isTTY) {
+    throw new Error("Picking files needs a terminal; use --paths instead");
+  }
+
+  const status = parseStatusV2(
+    runGitChecked(["status", "--porcelain=v2", "-z", "--untracked-files=all"], {
+      cwd,
+    }).stdout
+  );
+  const changed = status.entries.filter(
+    (entry) => entry.kind === "untracked" || entry.worktree !== "."
+  );
+  if (!changed.length) return {};
+
+  const { files } = await inquirer.prompt([
+    {
+      type: "checkbox",
+      name: "files",
+      message: "Select the files to stage",
+      pageSize: 20,
+      choices: changed.map((entry) => ({
+        name: `${entry.kind === "untracked" ? "?" : entry.worktree} ${
+          entry.path
+        }`,
+        value: entry.path,
+      })),
+    },
+  ]);
+  return { paths: (files as string[]).map((file) => `:(literal)${file}`) };
+}
+
+/**
+ * The `git add` argv for resolved stage options, or null when the index
+ * should be used as is. Globs match from the repository root, and `**`
+ * crosses directories.
+ */
+export function stageArgs(options: StageOptions): string[] | null {
+  if (options.all) return ["add", "-A"];
+  if (options.paths?.length) {
+    return [
+      "add",
+      "-A",
+      "--",
+      ...options.paths.map((p) => (p.startsWith(":") ? p : `:(top,glob)${p}`)),
+    ];
+  }
+  return null;
+}
+
+/** Stages per `options` and returns the argv that was run, if any. */
+export function stageChanges(
+  git: GitRunner,
+  options: StageOptions
+): string[] | null {
+  const args = stageArgs(options);
+  if (args) git(args);
+  return args;
+}
+
+/** `git diff --cached --name-status` of the given index. */
+export function stagedSummary(git: GitRunner): string {
+  return git(["diff", "--cached", "--name-status"]).stdout;
+}
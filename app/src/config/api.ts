@@ -1,16 +1,23 @@
 import fs from "fs/promises";
 import inquirer from "inquirer";
 import chalk from "chalk";
-import { CONFIG_DIR, ENV_FILE } from "./paths";
+import { ENV_FILE, SETTINGS_FILE } from "./paths";
+import { readRawSettings, writeRawSettings } from "./settings";
 
-export async function getApiKey(): Promise<string> {
+/**
+ * Resolves the Google API key from GOOGLE_API_KEY, then the `googleApiKey`
+ * setting, then the legacy .env file, prompting when none is set.
+ */
+export async function getApiKey(configured?: string): Promise<string> {
   let apiKey = process.env.GOOGLE_API_KEY;
   if (apiKey) {
     return apiKey;
   }
+  if (configured) {
+    return configured;
+  }
 
   try {
-    await fs.mkdir(CONFIG_DIR, { recursive: true });
     const envContent = await fs.readFile(ENV_FILE, "utf-8").catch(() => "");
     const match = envContent.match(/GOOGLE_API_KEY="(.+)"/);
     if (match?.[1]) {
@@ -35,21 +42,16 @@ export async function setupApiKey(): Promise<string> {
     {
       type: "confirm",
       name: "saveKey",
-      message: `Save this key to ${ENV_FILE}?`,
+      message: `Save this key to ${SETTINGS_FILE}?`,
       default: true,
     },
   ]);
 
   if (answers.saveKey) {
-    await fs.mkdir(CONFIG_DIR, { recursive: true });
-    await fs.writeFile(
-      ENV_FILE,
-      `GOOGLE_API_KEY="${answers.apiKey}"\n`,
-      "utf-8"
-    );
+    const raw = await readRawSettings("global");
+    await writeRawSettings("global", { ...raw, googleApiKey: answers.apiKey });
     console.log(chalk.green("✓ API key saved."));
   }
 
   return answers.apiKey;
 }
-
@@ -2,4 +2,8 @@ import path from "path";
 import os from "os";
 
 export const CONFIG_DIR = path.join(os.homedir(), ".config", "git-flash");
-export const ENV_FILE = path.join(CONFIG_DIR, ".env");
\ No newline at end of file
+export const ENV_FILE = path.join(CONFIG_DIR, ".env");
+export const SETTINGS_FILE = path.join(CONFIG_DIR, "config.json");
+export const REPO_SETTINGS_FILE = ".gfts.json";
+export const SESSIONS_DIR = path.join(CONFIG_DIR, "sessions");
+export const CHATS_DIR = path.join(CONFIG_DIR, "chats");
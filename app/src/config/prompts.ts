@@ -0,0 +1,119 @@
+import type { Settings } from "./settings";
+
+/**
+ * Built-in prompt templates. Each can be replaced through the `prompts`
+ * settings key; `{{name}}` placeholders are filled by renderTemplate.
+ */
+export const DEFAULT_PROMPTS = {
+  assist: `You are GFTS, an AI assistant for git and file system operations in a Node/Bun project.
+You are operating in the directory: {{cwd}}.
+
+Rules:
+- Carry out the task by calling the provided tools; never answer with commands for the user to run.
+- Break multi-step tasks into several tool calls and inspect each result before continuing.
+- Handle file operations: create, read, write, append, move, delete.
+- Handle directory operations: create, delete, list, tree.
+- For git: inspect state with git_status, git_diff and git_log, then use the dedicated git_* tools; fall back to run_git_command only for anything else (push, pull, merge, ...).
+- When the task is done, reply with a short plain-text summary of what was done.
+- Resolve references like "the feature branch" or "my changes" against the repository state below; inspect further with the tools when it is not enough.
+- Dry-run mode is {{dryRunMode}}
+
+Repository state:
+{{repoContext}}`,
+
+  commitMessage: `Based on the following git diff, propose {{count}} alternative commit messages following {{convention}}.
+{{rules}}
+{{scope}}
+Reply with a JSON array only. Each element has the shape:
+{"type": string, "scope": string | null, "subject": string, "body": string | null, "footers": [{"token": string, "value": string}], "breaking": boolean}
+The subject is imperative, lower-case and has no trailing period. Mark breaking changes with "breaking": true and a "BREAKING CHANGE" footer.
+
+{{diff}}`,
+
+  splitCommits: `The working tree mixes several unrelated changes. Group the numbered diff units below into logically separate commits following {{convention}}, ordered so each commit builds on the previous ones.
+{{rules}}
+Every unit must appear in exactly one group. Keep hunks of one file together unless they clearly belong to different changes.
+Reply with a JSON array only. Each element has the shape:
+{"hunks": string[], "type": string, "scope": string | null, "subject": string, "body": string | null, "footers": [{"token": string, "value": string}], "breaking": boolean}
+where "hunks" lists unit ids such as "h1".
+
+{{units}}`,
+
+  prDescription: `Write a pull request description for merging the branch '{{branch}}' into '{{base}}'.
+Reply with a JSON object only, of the shape:
+{"title": string, "summary": string, "changes": string[], "testing": string[], "breaking": string[]}
+- "title": one line under 72 characters, in the imperative.
+- "summary": two to four sentences on what the branch does and why.
+- "changes": the notable changes, one short Markdown bullet each.
+- "testing": how the changes were or should be tested.
+- "breaking": breaking changes with migration notes; empty if there are none.
+
+Commits:
+{{commits}}
+
+Changes:
+{{diff}}`,
+
+  releaseNotes: `Rewrite the changelog entries below for {{version}} as release notes for the project's users.
+Keep the "###" sections and their order, merge entries that describe the same change, drop purely internal ones (refactors, CI, tests) unless they affect users, and phrase each entry as a short user-facing benefit. Keep every breaking change and its migration note.
+Reply with the Markdown sections only, without a title or code fences.
+
+{{changelog}}`,
+
+  resolveConflict: `A {{operation}} stopped with a conflict in {{path}} at line {{line}}. Resolve this one hunk.
+"Ours" ({{oursLabel}}) is the side being merged into; "theirs" ({{theirsLabel}}) is the side being applied.
+Combine the intent of both sides where they are compatible; when they truly contradict, prefer the one that keeps the code consistent with the surrounding context. Never leave conflict markers in the result.
+Reply with a JSON object only, of the shape:
+{"resolution": string, "explanation": string}
+where "resolution" is the exact text replacing the whole hunk (markers included), with the file's indentation, and "explanation" says in one or two sentences what was kept and why.
+
+Context before the hunk:
+{{before}}
+
+Ours:
+{{ours}}
+
+Common ancestor:
+{{base}}
+
+Theirs:
+{{theirs}}
+
+Context after the hunk:
+{{after}}`,
+
+  reviewDiff: `Review the following changes as a careful senior engineer. Report real problems only: bugs, security issues, missing or broken tests, and style issues that hurt readability. Do not praise, and do not report issues in code the diff does not touch.
+Reply with a JSON array only, empty if there is nothing to report. Each element has the shape:
+{"file": string, "startLine": number, "endLine": number, "severity": "low" | "medium" | "high", "category": "bug" | "security" | "style" | "tests", "message": string, "suggestion": string}
+Line numbers refer to the new version of the file. Use "high" only for defects that would break behaviour or expose data.
+
+{{diff}}`,
+
+  summarizeDiff: `Summarize what the following diff changes, one line per file, in the form "<path>: <summary>". Describe the intent, not the individual lines, and keep each line under 120 characters.
+
+{{diff}}`,
+} satisfies Record<keyof Settings["prompts"], string>;
+
+export type PromptName = keyof typeof DEFAULT_PROMPTS;
+
+/**
+ * Replaces `{{name}}` placeholders with values from `vars`. Unknown
+ * placeholders are left as they are.
+ */
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string | number>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+/** Renders the configured template for `name`, or the built-in one. */
+export function buildPrompt(
+  settings: Settings,
+  name: PromptName,
+  vars: Record<string, string | number>
+): string {
+  return renderTemplate(settings.prompts[name] ?? DEFAULT_PROMPTS[name], vars);
+}
@@ -0,0 +1,409 @@
+import fs from "fs/promises";
+import path from "path";
+import chalk from "chalk";
+import { z } from "zod";
+import { REPO_SETTINGS_FILE, SETTINGS_FILE } from "./paths";
+import { runGit } from "../server/git";
+
+export const McpServerConfigSchema = z.object({
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+});
+
+export const PolicyRuleSchema = z.object({
+  effect: z.enum(["allow", "confirm", "deny"]),
+  /** Tool name, or a prefix ending in `*`. Defaults to every tool. */
+  tool: z.string().default("*"),
+  /** Regex tested against the action, e.g. "git push --force origin main". */
+  match: z
+    .string()
+    .refine((value) => {
+      try {
+        new RegExp(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Invalid regular expression")
+    .optional(),
+  reason: z.string().optional(),
+});
+
+export const PolicySchema = z.object({
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+export const PROVIDER_NAMES = ["gemini", "openai", "mock"] as const;
+
+export const ProvidersSchema = z.object({
+  openai: z
+    .object({
+      baseUrl: z.string().url().default("http://localhost:11434/v1"),
+      /** Stored key; takes precedence over `apiKeyEnv`. */
+      apiKey: z.string().optional(),
+      /** Environment variable holding the API key, if the server needs one. */
+      apiKeyEnv: z.string().default("OPENAI_API_KEY"),
+    })
+    .prefault({}),
+  mock: z
+    .object({
+      fixture: z.string().optional(),
+    })
+    .prefault({}),
+});
+
+export const PushSchema = z.object({
+  /** Push after `commit` / `auto-commit` unless --push/--no-push is given. */
+  enabled: z.boolean().default(true),
+  remote: z.string().min(1).default("origin"),
+});
+
+export const CommitSchema = z.object({
+  convention: z.enum(["conventional", "none"]).default("conventional"),
+  types: z
+    .array(z.string().min(1))
+    .default([
+      "feat",
+      "fix",
+      "docs",
+      "style",
+      "refactor",
+      "perf",
+      "test",
+      "build",
+      "ci",
+      "chore",
+      "revert",
+    ]),
+  maxHeaderLength: z.number().int().positive().default(72),
+  /** Glob or directory prefix -> scope, e.g. { "app/src/providers/**": "providers" }. */
+  scopes: z.record(z.string(), z.string().min(1)).default({}),
+  /** How many candidate messages `auto-commit` asks the model for. */
+  candidates: z.number().int().min(1).max(10).default(3),
+});
+
+export const DiffSchema = z.object({
+  /** Globs for files left out of prompts; they still appear in the stats. */
+  exclude: z
+    .array(z.string().min(1))
+    .default([
+      "**/package-lock.json",
+      "**/yarn.lock",
+      "**/pnpm-lock.yaml",
+      "**/bun.lock",
+      "**/bun.lockb",
+      "**/Cargo.lock",
+      "**/poetry.lock",
+      "**/composer.lock",
+      "**/Gemfile.lock",
+      "**/go.sum",
+      "**/*.min.js",
+      "**/*.min.css",
+      "**/*.map",
+      "**/dist/**",
+      "**/build/**",
+      "**/__generated__/**",
+      "**/*.generated.*",
+    ]),
+  /** Hunks longer than this many lines are cut short. */
+  maxHunkLines: z.number().int().positive().default(200),
+  /** Token budget for a diff in one prompt; derived from the model if unset. */
+  tokenBudget: z.number().int().positive().optional(),
+});
+
+export const ContextSchema = z.object({
+  /** Describe the repository (branch, status, files, ...) to `assist`. */
+  enabled: z.boolean().default(true),
+  /** Token budget for that description; the file tree gets what is left. */
+  tokenBudget: z.number().int().positive().default(1500),
+  recentCommits: z.number().int().min(0).max(50).default(10),
+});
+
+const BLOCK_LEVELS = ["low", "medium", "high"] as const;
+
+export const ReviewSchema = z.object({
+  /** Review the staged changes before every `auto-commit`. */
+  gate: z.boolean().default(false),
+  /** Lowest severity that blocks the commit (and fails `gfts review`). */
+  blockOn: z.enum(BLOCK_LEVELS).default("high"),
+});
+
+export const ReleaseSchema = z.object({
+  /** Prefix of version tags, e.g. "v" for v1.2.3. */
+  tagPrefix: z.string().default("v"),
+  /** File `changelog` and `release --changelog` prepend sections to. */
+  changelogFile: z.string().min(1).default("CHANGELOG.md"),
+});
+
+/**
+ * Prompt templates overriding DEFAULT_PROMPTS in ./prompts. `{{name}}`
+ * placeholders are filled in when the prompt is built.
+ */
+export const PromptsSchema = z.object({
+  assist: z.string().min(1).optional(),
+  commitMessage: z.string().min(1).optional(),
+  splitCommits: z.string().min(1).optional(),
+  summarizeDiff: z.string().min(1).optional(),
+  prDescription: z.string().min(1).optional(),
+  releaseNotes: z.string().min(1).optional(),
+  resolveConflict: z.string().min(1).optional(),
+  reviewDiff: z.string().min(1).optional(),
+});
+
+export const SettingsSchema = z.object({
+  provider: z.enum(PROVIDER_NAMES).optional(),
+  model: z.string().min(1).optional(),
+  googleApiKey: z.string().min(1).optional(),
+  providers: ProvidersSchema.prefault({}),
+  push: PushSchema.prefault({}),
+  commit: CommitSchema.prefault({}),
+  diff: DiffSchema.prefault({}),
+  context: ContextSchema.prefault({}),
+  review: ReviewSchema.prefault({}),
+  release: ReleaseSchema.prefault({}),
+  protectedBranches: z.array(z.string().min(1)).default([]),
+  prompts: PromptsSchema.prefault({}),
+  mcpServers: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[A-Za-z][A-Za-z0-9_-]*$/,
+          "Server names may only contain letters, digits, '_' and '-'"
+        ),
+      McpServerConfigSchema
+    )
+    .default({}),
+  policy: PolicySchema.prefault({}),
+});
+
+/**
+ * Settings a repository may set. MCP servers, provider endpoints,
+ * credentials, prompts and context are left out, so cloning a repo never
+ * makes gfts spawn commands from it, send code to a host it chose or follow
+ * its instructions. The review gate, protected branches and policy may only
+ * be tightened; see loadSettings.
+ */
+export const RepoSettingsSchema = SettingsSchema.pick({
+  provider: true,
+  model: true,
+  push: true,
+  commit: true,
+  diff: true,
+  review: true,
+  release: true,
+  protectedBranches: true,
+  policy: true,
+});
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+export type Settings = z.infer<typeof SettingsSchema>;
+
+export type SettingsScope = "global" | "repo";
+
+export type RawSettings = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawSettings =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Path of the settings file for a scope. The repo file lives in the root of
+ * the git repository containing `cwd`.
+ */
+export function settingsFilePath(
+  scope: SettingsScope,
+  cwd: string = process.cwd()
+): string {
+  if (scope === "global") return SETTINGS_FILE;
+  const toplevel = runGit(["rev-parse", "--show-toplevel"], { cwd });
+  const repoRoot = toplevel.return_code === 0 ? toplevel.stdout : cwd;
+  return path.join(repoRoot, REPO_SETTINGS_FILE);
+}
+
+function schemaFor(scope: SettingsScope) {
+  return scope === "global" ? SettingsSchema : RepoSettingsSchema;
+}
+
+/**
+ * Reads a settings file as plain JSON without applying defaults. A missing
+ * file reads as `{}`; malformed JSON throws.
+ */
+export async function readRawSettings(
+  scope: SettingsScope,
+  cwd: string = process.cwd()
+): Promise<RawSettings> {
+  const file = settingsFilePath(scope, cwd);
+  const raw = await fs.readFile(file, "utf-8").catch(() => null);
+  if (raw === null) return {};
+  const parsed = JSON.parse(raw);
+  if (!isObject(parsed)) throw new Error(`${file} must contain a JSON object`);
+  return parsed;
+}
+
+/**
+ * Validates and writes a settings file, creating its directory if needed.
+ * Unknown keys are rejected so typos surface immediately.
+ */
+export async function writeRawSettings(
+  scope: SettingsScope,
+  raw: RawSettings,
+  cwd: string = process.cwd()
+) {
+  const result = schemaFor(scope).strict().safeParse(raw);
+  if (!result.success) {
+    throw new Error(z.prettifyError(result.error));
+  }
+  const file = settingsFilePath(scope, cwd);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(raw, null, 2) + "\n", "utf-8");
+}
+
+async function readValidated(
+  scope: SettingsScope,
+  cwd: string
+): Promise<RawSettings> {
+  try {
+    const raw = await readRawSettings(scope, cwd);
+    const schema = schemaFor(scope);
+    schema.parse(raw);
+    // Drop keys the scope may not set (e.g. mcpServers in .gfts.json).
+    const allowed = new Set(Object.keys(schema.shape));
+    return Object.fromEntries(
+      Object.entries(raw).filter(([key]) => allowed.has(key))
+    );
+  } catch (error) {
+    const detail =
+      error instanceof z.ZodError ? z.prettifyError(error) : String(error);
+    const file = settingsFilePath(scope, cwd);
+    console.log(chalk.yellow(`Ignoring invalid settings in ${file}:`));
+    console.log(chalk.yellow(detail));
+    return {};
+  }
+}
+
+function deepMerge(base: RawSettings, override: RawSettings): RawSettings {
+  const merged: RawSettings = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      isObject(current) && isObject(value) ? deepMerge(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Loads ~/.config/git-flash/config.json and .gfts.json from the repo root.
+ * The repo file is merged over the global one key by key, except for the
+ * safety settings, where a cloned project may only be stricter than the
+ * user: policy rules are checked global first and the repo may only add
+ * deny or confirm rules, protected branches are combined, and the review
+ * gate is on if either file turns it on, blocking at the lower severity.
+ * Missing files yield the defaults; invalid ones are reported and ignored
+ * rather than aborting the command.
+ */
+export async function loadSettings(
+  cwd: string = process.cwd()
+): Promise<Settings> {
+  const global = await readValidated("global", cwd);
+  const repo = await readValidated("repo", cwd);
+
+  const rules = (raw: RawSettings) => {
+    const policy = raw.policy;
+    return isObject(policy) && Array.isArray(policy.rules) ? policy.rules : [];
+  };
+
+  const review = (raw: RawSettings) =>
+    ReviewSchema.parse(isObject(raw.review) ? raw.review : {});
+  const branches = (raw: RawSettings) =>
+    Array.isArray(raw.protectedBranches) ? raw.protectedBranches : [];
+
+  const merged = deepMerge(global, repo);
+  const stricter = rules(repo).filter(
+    (rule) => !isObject(rule) || rule.effect !== "allow"
+  );
+  merged.policy = { rules: [...rules(global), ...stricter] };
+  const [own, theirs] = [review(global), review(repo)];
+  merged.review = {
+    gate: own.gate || theirs.gate,
+    blockOn:
+      BLOCK_LEVELS[
+        Math.min(
+          BLOCK_LEVELS.indexOf(own.blockOn),
+          BLOCK_LEVELS.indexOf(theirs.blockOn)
+        )
+      ],
+  };
+  merged.protectedBranches = [
+    ...new Set([...branches(global), ...branches(repo)]),
+  ];
+  return SettingsSchema.parse(merged);
+}
+
+// ---------------------- Key paths ----------------------
+export function getSettingPath(raw: unknown, key: string): unknown {
+  return key
+    .split(".")
+    .reduce<unknown>(
+      (node, part) => (isObject(node) ? node[part] : undefined),
+      raw
+    );
+}
+
+export function setSettingPath(raw: RawSettings, key: string, value: unknown) {
+  const parts = key.split(".");
+  const last = parts.pop()!;
+  let node = raw;
+  for (const part of parts) {
+    if (!isObject(node[part])) node[part] = {};
+    node = node[part] as RawSettings;
+  }
+  node[last] = value;
+}
+
+/**
+ * Removes a key, pruning parent objects left empty. Returns false if the
+ * key was not set.
+ */
+export function unsetSettingPath(raw: RawSettings, key: string): boolean {
+  const [head, ...rest] = key.split(".");
+  if (!head || !(head in raw)) return false;
+  if (!rest.length) {
+    delete raw[head];
+    return true;
+  }
+  const child = raw[head];
+  if (!isObject(child)) return false;
+  const removed = unsetSettingPath(child, rest.join("."));
+  if (removed && !Object.keys(child).length) delete raw[head];
+  return removed;
+}
+
+const SECRET_KEY = /(api[-_]?key|token|secret|password)$/i;
+
+/**
+ * Copies settings with credentials replaced by a short masked preview.
+ * Values under `mcpServers.*.env` are always treated as secrets.
+ */
+export function maskSecrets(value: unknown, keyPath: string[] = []): unknown {
+  if (Array.isArray(value)) return value.map((v) => maskSecrets(v, keyPath));
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        maskSecrets(v, [...keyPath, key]),
+      ])
+    );
+  }
+
+  const key = keyPath[keyPath.length - 1] ?? "";
+  const isEnvValue = keyPath[0] === "mcpServers" && keyPath[2] === "env";
+  if (typeof value === "string" && (SECRET_KEY.test(key) || isEnvValue)) {
+    return value.length > 8
+      ? `${value.slice(0, 4)}…${value.slice(-2)}`
+      : "****";
+  }
+  return value;
+}
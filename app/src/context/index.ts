@@ -0,0 +1,183 @@
+import type { Settings } from "../config/settings";
+import { estimateTokens } from "../commit/digest";
+import {
+  parseStatusV2,
+  runGit,
+  type GitStatus,
+  type GitStatusEntry,
+} from "../server/git";
+import { buildTree, renderTree } from "../server/walk";
+
+/** Files beyond this are not considered for the tree at all. */
+const MAX_TREE_FILES = 5000;
+/** Status entries listed by name; the rest are only counted. */
+const MAX_STATUS_ENTRIES = 20;
+
+export type ContextOptions = Settings["context"];
+
+function git(args: string[], cwd: string) {
+  return runGit(args, { cwd, timeoutMs: 10_000 });
+}
+
+function describeBranch(status: GitStatus): string {
+  const { head, oid, upstream, ahead, behind } = status.branch;
+  const name = head
+    ? `Branch: ${head}`
+    : `Detached HEAD at ${oid?.slice(0, 7) ?? "(no commits)"}`;
+  if (!upstream) return `${name} (no upstream)`;
+  return `${name}, tracking ${upstream} (ahead ${ahead}, behind ${behind})`;
+}
+
+function entryLabel(entry: GitStatusEntry): string {
+  switch (entry.kind) {
+    case "untracked":
+      return `?? ${entry.path}`;
+    case "unmerged":
+      return `UU ${entry.path}`;
+    case "renamed":
+      return `${entry.index}${entry.worktree} ${entry.origPath} -> ${entry.path}`;
+    default:
+      return `${entry.index}${entry.worktree} ${entry.path}`;
+  }
+}
+
+function describeStatus(status: GitStatus): string {
+  const entries = status.entries.filter((e) => e.kind !== "ignored");
+  if (!entries.length) return "Working tree: clean";
+
+  const count = (test: (e: GitStatusEntry) => boolean) =>
+    entries.filter(test).length;
+  const counts = [
+    [count((e) => e.kind !== "untracked" && e.index !== "."), "staged"],
+    [
+      count(
+        (e) =>
+          e.kind !== "untracked" && e.kind !== "unmerged" && e.worktree !== "."
+      ),
+      "unstaged",
+    ],
+    [count((e) => e.kind === "untracked"), "untracked"],
+    [count((e) => e.kind === "unmerged"), "conflicted"],
+  ] as const;
+
+  const lines = entries.slice(0, MAX_STATUS_ENTRIES).map(entryLabel);
+  if (entries.length > MAX_STATUS_ENTRIES) {
+    lines.push(`... ${entries.length - MAX_STATUS_ENTRIES} more`);
+  }
+  return [
+    `Working tree: ${counts
+      .filter(([n]) => n)
+      .map(([n, label]) => `${n} ${label}`)
+      .join(", ")} (XY = index, worktree)`,
+    ...lines.map((line) => `  ${line}`),
+  ].join("\n");
+}
+
+/**
+ * Tracked and untracked-but-not-ignored files as an indented tree, as deep
+ * as fits in `budget` tokens.
+ */
+function describeFileTree(cwd: string, budget: number): string | null {
+  const listed = git(
+    ["ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+    cwd
+  );
+  if (listed.return_code !== 0) return null;
+  const files = [...new Set(listed.stdout.split("\0").filter(Boolean))];
+  if (!files.length) return "Files: (none)";
+
+  const tree = buildTree(files.slice(0, MAX_TREE_FILES));
+  const skipped =
+    files.length > MAX_TREE_FILES
+      ? [`... ${files.length - MAX_TREE_FILES} more files not listed`]
+      : [];
+  const header = `Files (${files.length}, .gitignore applied):`;
+
+  // Deepen the tree while it still fits.
+  let best: string[] | null = null;
+  for (let depth = 1; depth <= 12; depth++) {
+    const lines = [header, ...renderTree(tree, depth, "  "), ...skipped];
+    if (best && estimateTokens(lines.join("\n")) > budget) break;
+    best = lines;
+    if (!lines.some((line) => line.endsWith(" files)"))) break;
+  }
+  return clip(best!.join("\n"), budget);
+}
+
+/** Cuts text to a token budget on a line boundary. */
+function clip(text: string, budget: number): string {
+  if (estimateTokens(text) <= budget) return text;
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (estimateTokens([...kept, line, "..."].join("\n")) > budget) break;
+    kept.push(line);
+  }
+  return [...kept, `... (${lines.length - kept.length} more lines)`].join("\n");
+}
+
+/**
+ * A snapshot of the repository for the assist prompt: branch and upstream,
+ * status, recent commits, remotes, stashes and the file tree, most useful
+ * first, fitted to `options.tokenBudget`.
+ */
+export function gatherRepoContext(
+  options: ContextOptions,
+  cwd: string = process.cwd()
+): string {
+  if (!options.enabled) return "(not collected)";
+
+  const inRepo = git(["rev-parse", "--is-inside-work-tree"], cwd);
+  if (inRepo.stdout !== "true") {
+    return "Not inside a git repository.";
+  }
+
+  const sections: string[] = [];
+  let budget = options.tokenBudget;
+  const add = (text: string | null) => {
+    if (!text || budget <= 0) return;
+    const fitted = clip(text, budget);
+    sections.push(fitted);
+    budget -= estimateTokens(fitted) + 1;
+  };
+
+  const status = parseStatusV2(
+    git(["status", "--porcelain=v2", "--branch", "-z"], cwd).stdout
+  );
+  add(describeBranch(status));
+  add(describeStatus(status));
+
+  const indent = (text: string) =>
+    text
+      .split("\n")
+      .map((line) => `  ${line}`)
+      .join("\n");
+
+  if (options.recentCommits) {
+    const log = git(
+      ["log", `-n${options.recentCommits}`, "--format=%h %s (%an, %ar)"],
+      cwd
+    );
+    add(
+      log.return_code === 0 && log.stdout
+        ? `Recent commits:\n${indent(log.stdout)}`
+        : "Recent commits: (none)"
+    );
+  }
+
+  const remotes = git(["remote", "-v"], cwd)
+    .stdout.split("\n")
+    .filter((line) => line.endsWith("(fetch)"))
+    .map((line) => line.replace(/\s+\(fetch\)$/, ""));
+  add(
+    remotes.length
+      ? `Remotes:\n${indent(remotes.join("\n"))}`
+      : "Remotes: (none)"
+  );
+
+  const stashes = git(["stash", "list", "--format=%gd %s"], cwd).stdout;
+  if (stashes) add(`Stashes:\n${indent(stashes)}`);
+
+  if (budget > 0) add(describeFileTree(cwd, budget));
+  return sections.join("\n");
+}
@@ -0,0 +1,347 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { SESSIONS_DIR } from "../config/paths";
+import { runGit } from "../server/git";
+import { patchTargets } from "../server/patch";
+import type { RiskLevel } from "../policy";
+import type { ToolArgs } from "../tools/handlers";
+
+/** Per-action cap on the file contents copied into the journal. */
+const MAX_SNAPSHOT_BYTES = 20 * 1024 * 1024;
+
+export type PathSnapshot =
+  | { path: string; kind: "missing" }
+  | { path: string; kind: "dir" }
+  | { path: string; kind: "file"; mode: number; content: string };
+
+export interface GitSnapshot {
+  /** Symbolic ref HEAD pointed at, or null when detached. */
+  headRef: string | null;
+  headSha: string | null;
+  /** Branch and tag tips, by full ref name. */
+  refs: Record<string, string>;
+  /** Tree of the index, from `git write-tree`. */
+  indexTree: string | null;
+  /** Tracked worktree state, from `git stash create`. */
+  worktreeCommit: string | null;
+}
+
+export interface JournalAction {
+  tool: string;
+  args: ToolArgs;
+  level: RiskLevel;
+  /** Human-readable form of the call, as shown by the policy engine. */
+  action: string;
+  at: string;
+  files?: PathSnapshot[];
+  git?: GitSnapshot;
+  /** False when the snapshot was cut short or the effect is remote. */
+  reversible: boolean;
+  error?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  instruction: string;
+  cwd: string;
+  startedAt: string;
+  finishedAt?: string;
+  undoneAt?: string;
+  actions: JournalAction[];
+}
+
+const FILE_TOOLS: Record<string, string[]> = {
+  write_file: ["path"],
+  append_file: ["path"],
+  delete_file: ["path"],
+  create_directory: ["path"],
+  delete_directory: ["path"],
+  move_file: ["source", "destination"],
+};
+
+/** Files an apply_patch call may change. */
+function patchedPaths(args: ToolArgs): string[] {
+  return typeof args.patch === "string"
+    ? patchTargets(args.patch).map((t) => t.path)
+    : [String(args.path ?? "")];
+}
+
+export function newSessionId(): string {
+  const stamp = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  return `${stamp}-${crypto.randomBytes(2).toString("hex")}`;
+}
+
+function sessionFile(id: string): string {
+  return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+// ---------------------- Snapshots ----------------------
+function snapshotPath(
+  root: string,
+  relPath: string,
+  budget: { bytes: number }
+): PathSnapshot[] {
+  const absPath = path.resolve(root, relPath);
+  const rel = path.relative(root, absPath) || ".";
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.lstatSync(absPath);
+  } catch {
+    return [{ path: rel, kind: "missing" }];
+  }
+
+  if (stat.isDirectory()) {
+    const entries: PathSnapshot[] = [{ path: rel, kind: "dir" }];
+    for (const name of fs.readdirSync(absPath)) {
+      entries.push(...snapshotPath(root, path.join(rel, name), budget));
+    }
+    return entries;
+  }
+
+  budget.bytes -= stat.size;
+  if (budget.bytes < 0) return [];
+  return [
+    {
+      path: rel,
+      kind: "file",
+      mode: stat.mode & 0o777,
+      content: fs.readFileSync(absPath).toString("base64"),
+    },
+  ];
+}
+
+function snapshotGit(cwd: string): GitSnapshot | undefined {
+  const git = (...args: string[]) => runGit(args, { cwd });
+  if (git("rev-parse", "--git-dir").return_code !== 0) return undefined;
+
+  const headRef = git("symbolic-ref", "-q", "HEAD");
+  const headSha = git("rev-parse", "-q", "--verify", "HEAD");
+  const refs: Record<string, string> = {};
+  const refList = git(
+    "for-each-ref",
+    "--format=%(refname) %(objectname)",
+    "refs/heads",
+    "refs/tags"
+  );
+  for (const line of refList.stdout.split("\n").filter(Boolean)) {
+    const [name = "", sha = ""] = line.split(" ");
+    refs[name] = sha;
+  }
+  const indexTree = git("write-tree");
+  const worktree = git("stash", "create");
+
+  return {
+    headRef: headRef.return_code === 0 ? headRef.stdout : null,
+    headSha: headSha.return_code === 0 ? headSha.stdout : null,
+    refs,
+    indexTree: indexTree.return_code === 0 ? indexTree.stdout : null,
+    worktreeCommit: worktree.stdout || null,
+  };
+}
+
+function restoreFiles(root: string, snapshots: PathSnapshot[]) {
+  for (const snap of snapshots) {
+    if (snap.kind === "missing") {
+      fs.rmSync(path.resolve(root, snap.path), {
+        recursive: true,
+        force: true,
+      });
+    }
+  }
+  for (const snap of snapshots) {
+    const absPath = path.resolve(root, snap.path);
+    if (snap.kind === "dir") {
+      fs.mkdirSync(absPath, { recursive: true });
+    } else if (snap.kind === "file") {
+      if (fs.existsSync(absPath) && fs.statSync(absPath).isDirectory()) {
+        fs.rmSync(absPath, { recursive: true, force: true });
+      }
+      fs.mkdirSync(path.dirname(absPath), { recursive: true });
+      fs.writeFileSync(absPath, Buffer.from(snap.content, "base64"));
+      fs.chmodSync(absPath, snap.mode);
+    }
+  }
+}
+
+function restoreGit(cwd: string, snap: GitSnapshot): string[] {
+  const errors: string[] = [];
+  const git = (...args: string[]) => {
+    const result = runGit(args, { cwd });
+    if (result.return_code !== 0) errors.push(result.stderr);
+    return result;
+  };
+
+  const current = snapshotGit(cwd);
+  for (const ref of Object.keys(current?.refs ?? {})) {
+    if (!(ref in snap.refs)) git("update-ref", "-d", ref);
+  }
+  for (const [ref, sha] of Object.entries(snap.refs)) {
+    if (current?.refs[ref] !== sha) git("update-ref", ref, sha);
+  }
+
+  if (snap.headRef) git("symbolic-ref", "HEAD", snap.headRef);
+  else if (snap.headSha) git("update-ref", "--no-deref", "HEAD", snap.headSha);
+
+  // Checking out a tree-ish overwrites tracked files but never deletes any,
+  // so files that were untracked before the session are left alone.
+  const worktree = snap.worktreeCommit ?? snap.headSha;
+  if (worktree) git("checkout", worktree, "--", ".");
+  if (snap.indexTree) git("read-tree", snap.indexTree);
+
+  return errors;
+}
+
+// ---------------------- Journal ----------------------
+/**
+ * Records what an assist session changes so `gfts undo` can put it back.
+ * The journal is flushed to disk after every action.
+ */
+export class SessionJournal {
+  readonly record: SessionRecord;
+
+  constructor(instruction: string, cwd: string = process.cwd()) {
+    this.record = {
+      id: newSessionId(),
+      instruction,
+      cwd: path.resolve(cwd),
+      startedAt: new Date().toISOString(),
+      actions: [],
+    };
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Snapshots whatever `tool` may change, runs it, and journals the action.
+   * Read-only calls pass straight through.
+   */
+  async track<T>(
+    tool: string,
+    args: ToolArgs,
+    assessment: { level: RiskLevel; action: string },
+    run: () => Promise<T>
+  ): Promise<T> {
+    if (assessment.level === "read-only") return run();
+
+    const action: JournalAction = {
+      tool,
+      args,
+      level: assessment.level,
+      action: assessment.action,
+      at: new Date().toISOString(),
+      reversible: true,
+    };
+
+    const paths =
+      tool === "apply_patch"
+        ? patchedPaths(args)
+        : FILE_TOOLS[tool]?.map((key) => String(args[key] ?? ""));
+    if (paths) {
+      const budget = { bytes: MAX_SNAPSHOT_BYTES };
+      action.files = paths.flatMap((p) =>
+        snapshotPath(this.record.cwd, p, budget)
+      );
+      if (budget.bytes < 0) action.reversible = false;
+    } else if (tool.startsWith("git_") || tool === "run_git_command") {
+      action.git = snapshotGit(this.record.cwd);
+      if (/^git push\b/.test(assessment.action)) {
+        action.reversible = false;
+      }
+    } else {
+      // External MCP tools: nothing local to snapshot.
+      action.reversible = false;
+    }
+
+    try {
+      return await run();
+    } catch (err: any) {
+      action.error = err.message ?? String(err);
+      throw err;
+    } finally {
+      this.record.actions.push(action);
+      this.save();
+    }
+  }
+
+  finish() {
+    this.record.finishedAt = new Date().toISOString();
+    this.save();
+  }
+
+  private save() {
+    if (!this.record.actions.length) return;
+    fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+    fs.writeFileSync(
+      sessionFile(this.record.id),
+      JSON.stringify(this.record, null, 2),
+      "utf-8"
+    );
+  }
+}
+
+export function loadSession(id: string): SessionRecord | null {
+  try {
+    return JSON.parse(fs.readFileSync(sessionFile(id), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists journaled sessions, newest first.
+ */
+export function listSessions(): SessionRecord[] {
+  if (!fs.existsSync(SESSIONS_DIR)) return [];
+  return fs
+    .readdirSync(SESSIONS_DIR)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .reverse()
+    .map((name) => loadSession(name.replace(/\.json$/, "")))
+    .filter((record): record is SessionRecord => record !== null);
+}
+
+export interface UndoResult {
+  restored: number;
+  skipped: JournalAction[];
+  errors: string[];
+}
+
+/**
+ * Reverts a session by replaying its snapshots newest to oldest, so the
+ * working tree, index and refs end up as they were before it started.
+ */
+export function undoSession(record: SessionRecord): UndoResult {
+  const result: UndoResult = { restored: 0, skipped: [], errors: [] };
+
+  for (const action of [...record.actions].reverse()) {
+    if (action.files) {
+      try {
+        restoreFiles(record.cwd, action.files);
+        result.restored++;
+      } catch (err: any) {
+        result.errors.push(`${action.action}: ${err.message}`);
+      }
+    } else if (action.git) {
+      result.errors.push(...restoreGit(record.cwd, action.git));
+      result.restored++;
+    }
+    if (!action.reversible) result.skipped.push(action);
+  }
+
+  record.undoneAt = new Date().toISOString();
+  fs.writeFileSync(
+    sessionFile(record.id),
+    JSON.stringify(record, null, 2),
+    "utf-8"
+  );
+  return result;
+}
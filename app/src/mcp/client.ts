@@ -1,153 +1,228 @@
 // src/mcp/client.ts
 import chalk from "chalk";
-import { GftsServer } from "../server";
-import { getToolDefinitions } from "../tools/declarations";
-import { execSync } from "child_process";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  StdioClientTransport,
+  getDefaultEnvironment,
+  type StdioServerParameters,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { GftsServer, type ToolResult } from "../server";
+import { DryRunServer, type DryRunPlan } from "../server/dry-run";
+import type { McpServerConfig } from "../config/settings";
+import { PolicyEngine } from "../policy";
+import type { SessionJournal } from "../journal";
+import {
+  getToolDefinitions,
+  type ToolDeclaration,
+} from "../tools/declarations";
+import { runTool, validateToolArgs, type ToolArgs } from "../tools/handlers";
+import { SERVER_VERSION } from "./server";
+
+export type { ToolArgs };
+
+/** Separates the server name from the tool name in namespaced tools. */
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+export interface MCPClientOptions {
+  /**
+   * Spawn this MCP server and talk to it over stdio instead of calling
+   * GftsServer in-process. Use `{ command: "gfts", args: ["serve"] }` for
+   * the bundled server.
+   */
+  server?: StdioServerParameters;
+  /**
+   * Additional MCP servers whose tools are merged into the catalog as
+   * `<name>__<tool>`.
+   */
+  externalServers?: Record<string, McpServerConfig>;
+  /** Gatekeeper consulted before every tool call. */
+  policy?: PolicyEngine;
+  /** Journal that snapshots state before every real (non dry-run) change. */
+  journal?: SessionJournal;
+}
+
+interface CatalogEntry {
+  declaration: ToolDeclaration;
+  /** Name of the tool on the server that owns it. */
+  toolName: string;
+  /** Undefined for tools served by the in-process GftsServer. */
+  client?: Client;
+}
 
 export default class MCPClient {
   private server: GftsServer;
+  private dryRunServer: DryRunServer;
   private cwd: string;
+  private stdio?: StdioServerParameters;
+  private externalServers: Record<string, McpServerConfig>;
+  private policy: PolicyEngine;
+  private journal?: SessionJournal;
+  private clients: Client[] = [];
+  private catalog = new Map<string, CatalogEntry>();
 
-  constructor(workingDirectory: string = process.cwd()) {
+  constructor(
+    workingDirectory: string = process.cwd(),
+    options: MCPClientOptions = {}
+  ) {
     this.cwd = workingDirectory;
     this.server = new GftsServer(this.cwd);
+    this.dryRunServer = new DryRunServer(this.cwd);
+    this.stdio = options.server;
+    this.externalServers = options.externalServers ?? {};
+    this.policy = options.policy ?? new PolicyEngine([], { cwd: this.cwd });
+    this.journal = options.journal;
   }
 
   async connect() {
-    console.log(chalk.green("✅ MCP Client initialized (serverless mode)"));
+    this.catalog.clear();
+
+    if (this.stdio) {
+      const client = await this.spawn(this.stdio);
+      await this.registerRemoteTools(client);
+      console.log(
+        chalk.green(`✅ MCP Client connected to '${this.stdio.command}'`)
+      );
+    } else {
+      for (const declaration of getToolDefinitions()) {
+        this.catalog.set(declaration.name, {
+          declaration,
+          toolName: declaration.name,
+        });
+      }
+      console.log(chalk.green("✅ MCP Client initialized (serverless mode)"));
+    }
+
+    for (const [name, config] of Object.entries(this.externalServers)) {
+      try {
+        const client = await this.spawn({
+          command: config.command,
+          args: config.args,
+          env: { ...getDefaultEnvironment(), ...config.env },
+        });
+        const count = await this.registerRemoteTools(client, name);
+        console.log(
+          chalk.green(`✅ Connected to MCP server '${name}' (${count} tools)`)
+        );
+      } catch (err: any) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Skipping MCP server '${name}': ${err.message ?? String(err)}`
+          )
+        );
+      }
+    }
+  }
+
+  private async spawn(params: StdioServerParameters): Promise<Client> {
+    const transport = new StdioClientTransport({ cwd: this.cwd, ...params });
+    const client = new Client({ name: "gfts-client", version: SERVER_VERSION });
+    await client.connect(transport);
+    this.clients.push(client);
+    return client;
+  }
+
+  private async registerRemoteTools(
+    client: Client,
+    namespace?: string
+  ): Promise<number> {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      const name = namespace
+        ? `${namespace}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`
+            .replace(/[^A-Za-z0-9_.-]/g, "_")
+            .slice(0, 64)
+        : tool.name;
+      this.catalog.set(name, {
+        client,
+        toolName: tool.name,
+        declaration: {
+          name,
+          description: tool.description ?? "",
+          parameters: {
+            ...tool.inputSchema,
+            properties: tool.inputSchema.properties ?? {},
+          },
+        },
+      });
+    }
+    return tools.length;
   }
 
   /**
-   * Executes a structured instruction from AI (JSON or natural language)
-   * Handles Git commands and file operations.
+   * Lists the tools the model is allowed to call, across all servers.
    */
-  async callTool(instruction: string, dryRun: boolean = true): Promise<string> {
-    console.log(chalk.blueBright("\n💡 Processing instruction:"));
-    console.log(chalk.gray(instruction));
+  listTools(): ToolDeclaration[] {
+    return [...this.catalog.values()].map((entry) => entry.declaration);
+  }
 
-    try {
-      // 1️⃣ Try JSON instruction
-      let parsed: any;
-      try {
-        parsed = JSON.parse(instruction);
-      } catch {
-        parsed = null;
-      }
+  /**
+   * Executes a single function call returned by the model, routing it to
+   * the server that owns the tool once the policy engine has allowed it.
+   */
+  async callTool(
+    name: string,
+    args: ToolArgs = {},
+    dryRun: boolean = true
+  ): Promise<ToolResult> {
+    const entry = this.catalog.get(name);
+    if (!entry) return { error: `Unknown tool: ${name}` };
+    if (!entry.client) {
+      // Reject malformed calls before the policy prompt or the journal.
+      const checked = validateToolArgs(entry.toolName, args);
+      if (!checked.valid) return { error: checked.error };
+      args = checked.args;
+    }
 
-      if (parsed?.tool && parsed?.parameters) {
-        const tools = getToolDefinitions();
-        const toolDef = tools.find((t) => t.name === parsed.tool);
-        if (!toolDef) return `❌ Unknown tool: ${parsed.tool}`;
-
-        if (dryRun) return `Dry-run: simulated ${parsed.tool} execution.`;
-
-        switch (parsed.tool) {
-          case "run_git_command":
-            return (await this.server.runGitCommand(parsed.parameters.command))
-              .stdout;
-          case "write_file":
-            return this.server.writeFile(
-              parsed.parameters.path,
-              parsed.parameters.content
-            );
-          case "append_file":
-            return this.server.appendFile(
-              parsed.parameters.path,
-              parsed.parameters.content
-            );
-          case "move_file":
-            return this.server.moveFile(
-              parsed.parameters.source,
-              parsed.parameters.destination
-            );
-          case "delete_file":
-            return this.server.deleteFile(parsed.parameters.path);
-          case "create_directory":
-            return this.server.createDirectory(parsed.parameters.path);
-          case "delete_directory":
-            return this.server.deleteDirectory(parsed.parameters.path);
-          case "list_files":
-            return this.server.listFiles(parsed.parameters.path);
-          case "list_directory_tree":
-            return this.server.listDirectoryTree(parsed.parameters.path);
-          case "read_directory_files":
-            return this.server.readDirectoryFiles(parsed.parameters.path);
-          case "get_current_directory":
-            return this.server.getCurrentDirectory();
-        }
+    const authorization = await this.policy.authorize(name, args, dryRun);
+    if (!authorization.allowed) return { error: authorization.reason };
+
+    if (dryRun) {
+      if (!entry.client) {
+        return runTool(this.dryRunServer, entry.toolName, args);
       }
+      this.dryRunServer.recordExternalCall(name, args);
+      return `Dry-run: would call ${name}; external tools are not simulated.`;
+    }
 
-      // 2️⃣ Fallback: regex for natural language
-      const normalized = instruction.toLowerCase();
+    const run = () => this.dispatch(entry, args);
+    return this.journal
+      ? this.journal.track(name, args, authorization.assessment, run)
+      : run();
+  }
 
-      if (/^git\s/i.test(normalized)) {
-        if (dryRun)
-          return `Dry-run: git command not executed.\nCommand: ${instruction}`;
-        return (
-          await this.server.runGitCommand(instruction.replace(/^git\s/i, ""))
-        ).stdout;
-      }
+  private async dispatch(
+    entry: CatalogEntry,
+    args: ToolArgs
+  ): Promise<ToolResult> {
+    if (!entry.client) return runTool(this.server, entry.toolName, args);
 
-      const tools = getToolDefinitions();
-      for (const tool of tools) {
-        if (normalized.includes(tool.name.replaceAll("_", " "))) {
-          if (dryRun) return `Dry-run: simulated ${tool.name} execution.`;
-
-          // Regex mapping for simple commands
-          switch (tool.name) {
-            case "write_file": {
-              const m = instruction.match(
-                /write\s+(.+?)\s+with\s+content\s+["']([\s\S]+)["']/i
-              );
-              if (m) return this.server.writeFile(m[1], m[2]);
-              break;
-            }
-            case "append_file": {
-              const m = instruction.match(
-                /append\s+to\s+(.+?)\s+content\s+["']([\s\S]+)["']/i
-              );
-              if (m) return this.server.appendFile(m[1], m[2]);
-              break;
-            }
-            case "move_file": {
-              const m = instruction.match(/move\s+(.+?)\s+to\s+(.+)/i);
-              if (m) return this.server.moveFile(m[1], m[2]);
-              break;
-            }
-            case "delete_file": {
-              const m = instruction.match(/delete\s+file\s+(.+)/i);
-              if (m) return this.server.deleteFile(m[1]);
-              break;
-            }
-            case "create_directory": {
-              const m = instruction.match(/create\s+directory\s+(.+)/i);
-              if (m) return this.server.createDirectory(m[1]);
-              break;
-            }
-            case "delete_directory": {
-              const m = instruction.match(/delete\s+directory\s+(.+)/i);
-              if (m) return this.server.deleteDirectory(m[1]);
-              break;
-            }
-            case "list_files": {
-              const m = instruction.match(/list\s+files\s+in\s+(.+)/i);
-              if (m) return this.server.listFiles(m[1]);
-              break;
-            }
-          }
-        }
-      }
+    const result = await entry.client.callTool({
+      name: entry.toolName,
+      arguments: args,
+    });
+    const content = Array.isArray(result.content) ? result.content : [];
+    const text = content
+      .map((part) => (part.type === "text" ? part.text : `[${part.type}]`))
+      .join("\n");
 
-      // 3️⃣ Fallback: execute as shell command
-      if (dryRun)
-        return `Dry-run: command not executed.\nCommand: ${instruction}`;
-      return execSync(instruction, { cwd: this.cwd, encoding: "utf-8" });
-    } catch (err: any) {
-      return `❌ Error executing instruction:\n${err.message}`;
-    }
+    return result.isError ? { error: text } : text;
+  }
+
+  /**
+   * Everything dry-run calls would have changed so far.
+   */
+  getDryRunPlan(): DryRunPlan {
+    return this.dryRunServer.getPlan();
+  }
+
+  /** Discards the simulated changes and starts an empty plan. */
+  resetDryRun() {
+    this.dryRunServer = new DryRunServer(this.cwd);
   }
 
   async cleanup() {
+    await Promise.allSettled(this.clients.map((client) => client.close()));
+    this.clients = [];
     console.log(chalk.yellow("🧹 MCP Client cleanup done"));
   }
 }
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { PolicyEngine } from "../policy";
+import { createMcpServer, type McpServerOptions } from "./server";
+
+let root: string;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-serve-"));
+  fs.mkdirSync(path.join(root, "docs"));
+  fs.writeFileSync(path.join(root, "docs", "a.md"), "a\n");
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function connect(options: McpServerOptions = {}) {
+  const server = createMcpServer(root, options);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+}
+
+const text = (result: Awaited<ReturnType<Client["callTool"]>>) =>
+  (result.content as { text: string }[]).map((part) => part.text).join("\n");
+
+describe("createMcpServer", () => {
+  test("runs calls the policy allows", async () => {
+    const client = await connect();
+    const result = await client.callTool({
+      name: "read_file",
+      arguments: { path: "docs/a.md" },
+    });
+    expect(result.isError).toBe(false);
+    expect(text(result)).toBe("a\n");
+  });
+
+  test("refuses calls a deny rule matches", async () => {
+    const policy = new PolicyEngine(
+      [{ effect: "deny", tool: "write_file", reason: "read-only project" }],
+      { cwd: root, interactive: false }
+    );
+    const client = await connect({ policy });
+    const result = await client.callTool({
+      name: "write_file",
+      arguments: { path: "b.md", content: "b" },
+    });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Denied by policy: read-only project");
+    expect(fs.existsSync(path.join(root, "b.md"))).toBe(false);
+  });
+
+  test("denies destructive calls unless auto-approved", async () => {
+    const denied = await (
+      await connect()
+    ).callTool({ name: "delete_directory", arguments: { path: "docs" } });
+    expect(denied.isError).toBe(true);
+    expect(text(denied)).toContain("needs confirmation");
+    expect(fs.existsSync(path.join(root, "docs"))).toBe(true);
+
+    const policy = new PolicyEngine([], {
+      cwd: root,
+      autoApprove: true,
+      interactive: false,
+    });
+    const allowed = await (
+      await connect({ policy })
+    ).callTool({ name: "delete_directory", arguments: { path: "docs" } });
+    expect(allowed.isError).toBe(false);
+    expect(fs.existsSync(path.join(root, "docs"))).toBe(false);
+  });
+
+  test("rejects invalid arguments before running anything", async () => {
+    const result = await (
+      await connect()
+    ).callTool({ name: "write_file", arguments: { path: "b.md" } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Invalid arguments for write_file");
+  });
+});
@@ -0,0 +1,111 @@
+// src/mcp/server.ts
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { GftsServer } from "../server";
+import { PolicyEngine } from "../policy";
+import type { SessionJournal } from "../journal";
+import { getToolDefinitions } from "../tools/declarations";
+import {
+  formatToolResult,
+  isToolError,
+  runTool,
+  validateToolArgs,
+} from "../tools/handlers";
+
+export const SERVER_NAME = "gfts";
+export const SERVER_VERSION = "1.0.0";
+
+export interface McpServerOptions {
+  /**
+   * Gatekeeper consulted before every call. It must not be interactive:
+   * stdin and stdout carry the protocol.
+   */
+  policy?: PolicyEngine;
+  /** Journal that snapshots state before every change, for `gfts undo`. */
+  journal?: SessionJournal;
+}
+
+/**
+ * Builds an MCP server exposing every declared tool, backed by GftsServer.
+ * Calls go through the same policy check and journal as MCPClient.callTool.
+ */
+export function createMcpServer(
+  workingDirectory: string = process.cwd(),
+  options: McpServerOptions = {}
+) {
+  const gfts = new GftsServer(workingDirectory);
+  const policy =
+    options.policy ??
+    new PolicyEngine([], { cwd: workingDirectory, interactive: false });
+  const server = new Server(
+    { name: SERVER_NAME, version: SERVER_VERSION },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: getToolDefinitions().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.parameters,
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const checked = validateToolArgs(name, args);
+    if (!checked.valid) {
+      return {
+        content: [{ type: "text", text: checked.error }],
+        isError: true,
+      };
+    }
+
+    try {
+      const authorization = await policy.authorize(name, checked.args);
+      if (!authorization.allowed) {
+        return {
+          content: [{ type: "text", text: authorization.reason }],
+          isError: true,
+        };
+      }
+      const run = () => runTool(gfts, name, checked.args);
+      const result = options.journal
+        ? await options.journal.track(
+            name,
+            checked.args,
+            authorization.assessment,
+            run
+          )
+        : await run();
+      return {
+        content: [{ type: "text", text: formatToolResult(result) }],
+        isError: isToolError(result),
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: "text", text: err.message ?? String(err) }],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Serves the tools over stdio. stdout carries the protocol, so anything
+ * meant for humans must go to stderr.
+ */
+export async function startStdioServer(
+  workingDirectory: string = process.cwd(),
+  options: McpServerOptions = {}
+) {
+  const server = createMcpServer(workingDirectory, options);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  return server;
+}
@@ -0,0 +1,440 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import type { PolicyRule } from "../config/settings";
+import { parseGitCommand } from "../server/git";
+import { patchTargets } from "../server/patch";
+import type { ToolArgs } from "../tools/handlers";
+
+export type RiskLevel = "read-only" | "mutating" | "destructive";
+
+export interface ToolCallAssessment {
+  level: RiskLevel;
+  /** One-line rendering of the call, e.g. "git push --force origin main". */
+  action: string;
+  /** Concrete consequences shown in the confirmation prompt. */
+  details: string[];
+}
+
+export interface PolicyDecision {
+  effect: "allow" | "confirm" | "deny";
+  assessment: ToolCallAssessment;
+  reason?: string;
+}
+
+export type Authorization =
+  | { allowed: true; assessment: ToolCallAssessment }
+  | { allowed: false; assessment: ToolCallAssessment; reason: string };
+
+const READ_ONLY_TOOLS = new Set([
+  "git_status",
+  "git_diff",
+  "git_log",
+  "git_branch_list",
+  "list_files",
+  "read_file",
+  "read_file_range",
+  "search_files",
+  "list_directory_tree",
+  "read_directory_files",
+  "get_current_directory",
+]);
+
+const READ_ONLY_GIT = new Set([
+  "status",
+  "log",
+  "diff",
+  "show",
+  "blame",
+  "shortlog",
+  "describe",
+  "rev-parse",
+  "rev-list",
+  "ls-files",
+  "ls-tree",
+  "ls-remote",
+  "grep",
+  "cat-file",
+  "merge-base",
+  "whatchanged",
+  "help",
+  "version",
+]);
+
+/** Subcommands that change state without losing work on their own. */
+const MUTATING_GIT = new Set([
+  "add",
+  "mv",
+  "fetch",
+  "pull",
+  "merge",
+  "cherry-pick",
+  "revert",
+  "am",
+  "apply",
+  "init",
+  "notes",
+  "worktree",
+  "submodule",
+  "bisect",
+  "sparse-checkout",
+  "format-patch",
+  "archive",
+  "bundle",
+  "mergetool",
+  "rerere",
+]);
+
+const DESTRUCTIVE_GIT = new Set([
+  "rebase",
+  "filter-branch",
+  "filter-repo",
+  "prune",
+  "rm",
+]);
+
+const has = (args: string[], ...flags: string[]) =>
+  args.some((arg) => flags.includes(arg));
+
+/**
+ * Classifies a git argv (without the leading "git").
+ */
+export function classifyGitArgs(args: string[]): RiskLevel {
+  const [sub = "", ...rest] = args;
+  const positional = rest.filter((arg) => !arg.startsWith("-"));
+
+  if (READ_ONLY_GIT.has(sub)) return "read-only";
+  if (DESTRUCTIVE_GIT.has(sub)) return "destructive";
+  if (MUTATING_GIT.has(sub)) return "mutating";
+
+  switch (sub) {
+    case "push":
+      return has(rest, "--force", "-f", "--force-with-lease", "--mirror") ||
+        has(rest, "--delete", "-d", "--prune") ||
+        rest.some((arg) => arg.startsWith("--force-with-lease=")) ||
+        positional.some((arg) => arg.startsWith("+") || arg.startsWith(":"))
+        ? "destructive"
+        : "mutating";
+    case "reset":
+      return has(rest, "--hard", "--merge", "--keep")
+        ? "destructive"
+        : "mutating";
+    case "clean":
+      return has(rest, "-n", "--dry-run") ? "read-only" : "destructive";
+    case "checkout":
+      return has(rest, "-f", "--force", "--", ".") ? "destructive" : "mutating";
+    case "switch":
+      return has(rest, "-f", "--force", "--discard-changes")
+        ? "destructive"
+        : "mutating";
+    case "restore":
+      return has(rest, "--staged", "-S") && !has(rest, "--worktree", "-W")
+        ? "mutating"
+        : "destructive";
+    case "commit":
+      return has(rest, "--amend") ? "destructive" : "mutating";
+    case "branch":
+      if (has(rest, "-D", "-d", "--delete", "-M", "-f", "--force"))
+        return "destructive";
+      return positional.length ? "mutating" : "read-only";
+    case "tag":
+      if (has(rest, "-d", "--delete", "-f", "--force")) return "destructive";
+      return positional.length && !has(rest, "-l", "--list")
+        ? "mutating"
+        : "read-only";
+    case "stash":
+      if (positional[0] === "drop" || positional[0] === "clear")
+        return "destructive";
+      return positional[0] === "list" || positional[0] === "show"
+        ? "read-only"
+        : "mutating";
+    case "remote":
+      return !positional.length ||
+        positional[0] === "show" ||
+        positional[0] === "get-url"
+        ? "read-only"
+        : "mutating";
+    case "reflog":
+      return positional[0] === "expire" || positional[0] === "delete"
+        ? "destructive"
+        : "read-only";
+    case "update-ref":
+      return has(rest, "-d") ? "destructive" : "mutating";
+    case "gc":
+      return rest.some((arg) => arg.startsWith("--prune"))
+        ? "destructive"
+        : "mutating";
+    case "config":
+      // Settings like core.sshCommand, core.fsmonitor or aliases run
+      // programs, so writes get a confirmation.
+      return has(rest, "--get", "--get-all", "--list", "-l")
+        ? "read-only"
+        : "destructive";
+    default:
+      // Global options, unknown subcommands and aliases, which can run
+      // anything.
+      return "destructive";
+  }
+}
+
+const str = (args: ToolArgs, key: string) =>
+  args[key] === undefined || args[key] === null ? "" : String(args[key]);
+
+const list = (args: ToolArgs, key: string) => {
+  const value = args[key];
+  if (Array.isArray(value)) return value.map(String);
+  return value === undefined ? [] : [String(value)];
+};
+
+function countFiles(dir: string): number {
+  let count = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    count += entry.isDirectory() ? countFiles(path.join(dir, entry.name)) : 1;
+  }
+  return count;
+}
+
+function describePath(cwd: string, target: string): string | null {
+  try {
+    const resolved = path.resolve(cwd, target);
+    const stat = fs.statSync(resolved);
+    if (stat.isDirectory())
+      return `'${target}' and the ${countFiles(resolved)} file(s) inside it`;
+    return `'${target}' (${stat.size} bytes)`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Works out what a tool call would do and how risky it is, without running it.
+ */
+export function classifyToolCall(
+  name: string,
+  args: ToolArgs,
+  cwd: string
+): ToolCallAssessment {
+  const gitCall = (argv: string[], details: string[] = []) => ({
+    level: classifyGitArgs(argv),
+    action: ["git", ...argv].join(" "),
+    details,
+  });
+
+  switch (name) {
+    case "run_git_command": {
+      let argv: string[];
+      try {
+        argv = parseGitCommand(str(args, "command"));
+      } catch (err: any) {
+        // GftsServer refuses these too; never let them pass unprompted.
+        return {
+          level: "destructive",
+          action: `git ${str(args, "command")}`,
+          details: [err.message],
+        };
+      }
+      return gitCall(argv);
+    }
+    case "git_status":
+      return gitCall(["status"]);
+    case "git_diff":
+      return gitCall([
+        "diff",
+        ...(args.staged ? ["--staged"] : []),
+        ...(str(args, "ref") ? [str(args, "ref")] : []),
+      ]);
+    case "git_log":
+      return gitCall(["log", ...(str(args, "ref") ? [str(args, "ref")] : [])]);
+    case "git_branch_list":
+      return gitCall(["branch", "--list"]);
+    case "git_branch_create":
+      return gitCall(
+        args.checkout
+          ? ["switch", "-c", str(args, "name")]
+          : ["branch", str(args, "name")]
+      );
+    case "git_branch_switch":
+      return gitCall(["switch", str(args, "name")]);
+    case "git_branch_delete":
+      return gitCall(
+        ["branch", args.force ? "-D" : "-d", str(args, "name")],
+        args.force ? ["Unmerged commits on the branch will be lost"] : []
+      );
+    case "git_stash":
+      return gitCall(["stash", str(args, "action") || "push"]);
+    case "git_tag":
+      if (args.action === "delete")
+        return gitCall(["tag", "-d", str(args, "name")]);
+      return gitCall(
+        args.action === "create" ? ["tag", str(args, "name")] : ["tag", "-l"]
+      );
+    case "git_add":
+      return gitCall(["add", "--", ...list(args, "paths")]);
+    case "git_commit":
+      return gitCall(
+        [
+          "commit",
+          ...(args.amend ? ["--amend"] : []),
+          "-m",
+          JSON.stringify(str(args, "message").split("\n")[0]),
+        ],
+        args.amend ? ["Rewrites the current HEAD commit"] : []
+      );
+    case "delete_file":
+    case "delete_directory": {
+      const target = str(args, "path");
+      const existing = describePath(cwd, target);
+      return {
+        level: "destructive",
+        action: `${name.replace("_", " ")} ${target}`,
+        details: existing ? [`Permanently removes ${existing}`] : [],
+      };
+    }
+    case "write_file": {
+      const target = str(args, "path");
+      const existing = describePath(cwd, target);
+      return {
+        level: "mutating",
+        action: `write file ${target}`,
+        details: existing ? [`Overwrites ${existing}`] : [],
+      };
+    }
+    case "apply_patch": {
+      const targets =
+        typeof args.patch === "string"
+          ? patchTargets(args.patch)
+          : [{ path: str(args, "path"), deleted: false }];
+      const deleted = targets.filter((t) => t.deleted);
+      return {
+        level: deleted.length ? "destructive" : "mutating",
+        action: `patch ${
+          targets.map((t) => t.path).join(", ") || "(no files)"
+        }`,
+        details: deleted.map((t) => `Deletes ${t.path}`),
+      };
+    }
+    case "move_file": {
+      const destination = str(args, "destination");
+      const existing = describePath(cwd, destination);
+      return {
+        level: existing ? "destructive" : "mutating",
+        action: `move ${str(args, "source")} -> ${destination}`,
+        details: existing ? [`Replaces ${existing}`] : [],
+      };
+    }
+    default:
+      return {
+        level: READ_ONLY_TOOLS.has(name) ? "read-only" : "mutating",
+        action: `${name} ${JSON.stringify(args)}`,
+        details: [],
+      };
+  }
+}
+
+function ruleMatches(rule: PolicyRule, name: string, action: string) {
+  const toolMatches =
+    rule.tool === "*" ||
+    rule.tool === name ||
+    (rule.tool.endsWith("*") && name.startsWith(rule.tool.slice(0, -1)));
+  if (!toolMatches) return false;
+  return rule.match ? new RegExp(rule.match).test(action) : true;
+}
+
+export interface PolicyEngineOptions {
+  /** Skip confirmation prompts (`--yes`). Deny rules still apply. */
+  autoApprove?: boolean;
+  /**
+   * Prompt on the terminal for actions that need confirmation; when off
+   * they are denied unless auto-approved. Defaults to true.
+   */
+  interactive?: boolean;
+  cwd?: string;
+}
+
+/**
+ * Sits between MCPClient and the tool servers: classifies every call,
+ * applies the configured allow/deny/confirm rules (first match wins) and
+ * asks the user before anything destructive runs.
+ */
+export class PolicyEngine {
+  private rules: PolicyRule[];
+  private autoApprove: boolean;
+  private interactive: boolean;
+  private cwd: string;
+
+  constructor(rules: PolicyRule[] = [], options: PolicyEngineOptions = {}) {
+    this.rules = rules;
+    this.autoApprove = options.autoApprove ?? false;
+    this.interactive = options.interactive ?? true;
+    this.cwd = options.cwd ?? process.cwd();
+  }
+
+  evaluate(name: string, args: ToolArgs = {}): PolicyDecision {
+    const assessment = classifyToolCall(name, args, this.cwd);
+    const rule = this.rules.find((r) =>
+      ruleMatches(r, name, assessment.action)
+    );
+
+    if (rule) {
+      return { effect: rule.effect, assessment, reason: rule.reason };
+    }
+    return {
+      effect: assessment.level === "destructive" ? "confirm" : "allow",
+      assessment,
+    };
+  }
+
+  async authorize(
+    name: string,
+    args: ToolArgs = {},
+    dryRun = false
+  ): Promise<Authorization> {
+    const { effect, assessment, reason } = this.evaluate(name, args);
+
+    if (effect === "deny") {
+      return {
+        allowed: false,
+        assessment,
+        reason: `Denied by policy: ${reason ?? assessment.action}`,
+      };
+    }
+    if (effect === "allow" || dryRun) return { allowed: true, assessment };
+
+    if (this.autoApprove) {
+      console.error(
+        chalk.yellow(`⚠️  Auto-approved (${assessment.level}): `) +
+          chalk.bold(assessment.action)
+      );
+      return { allowed: true, assessment };
+    }
+
+    if (!this.interactive || !process.stdin.isTTY) {
+      return {
+        allowed: false,
+        assessment,
+        reason: `'${assessment.action}' needs confirmation; re-run with --yes to allow it non-interactively`,
+      };
+    }
+
+    console.log(chalk.yellow(`\n⚠️  ${assessment.level} action requested:`));
+    console.log(chalk.bold(`  ${assessment.action}`));
+    for (const detail of assessment.details) {
+      console.log(chalk.yellow(`  - ${detail}`));
+    }
+    if (reason) console.log(chalk.dim(`  (${reason})`));
+
+    const { proceed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "proceed",
+        message: "Allow this action?",
+        default: false,
+      },
+    ]);
+
+    return proceed
+      ? { allowed: true, assessment }
+      : { allowed: false, assessment, reason: "Declined by the user" };
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  GoogleGenAI,
+  type Content,
+  type FunctionCall,
+  type GenerateContentParameters,
+  type Part,
+} from "@google/genai";
+import type {
+  ChatMessage,
+  GenerateRequest,
+  GenerateResponse,
+  LLMProvider,
+  ToolCall,
+} from "./types";
+
+function toContents(messages: ChatMessage[]): Content[] {
+  return messages.map((message): Content => {
+    switch (message.role) {
+      case "user":
+        return { role: "user", parts: [{ text: message.text }] };
+      case "assistant":
+        return {
+          role: "model",
+          parts: [
+            ...(message.text ? [{ text: message.text }] : []),
+            ...(message.toolCalls ?? []).map((call) => ({
+              functionCall: { id: call.id, name: call.name, args: call.args },
+            })),
+          ],
+        };
+      case "tool":
+        return {
+          role: "user",
+          parts: message.results.map((result) => ({
+            functionResponse: {
+              id: result.id,
+              name: result.name,
+              response: result.response,
+            },
+          })),
+        };
+    }
+  });
+}
+
+// Reading response.text would warn whenever function calls are present.
+function replyText(parts: Part[] = []): string {
+  return parts
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join("");
+}
+
+function toToolCalls(calls: FunctionCall[] = []): ToolCall[] {
+  return calls.map((call) => ({
+    id: call.id,
+    name: call.name ?? "",
+    args: call.args ?? {},
+  }));
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private genai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.genai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const functionDeclarations = (request.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters,
+    }));
+
+    const params = {
+      model: this.model,
+      contents: toContents(request.messages),
+      config: {
+        systemInstruction: request.system,
+        tools: functionDeclarations.length
+          ? [{ functionDeclarations }]
+          : undefined,
+      },
+    };
+
+    if (request.onText) {
+      return this.generateStream(params, request.onText);
+    }
+
+    const response = await this.genai.models.generateContent(params);
+    const content = response?.candidates?.[0]?.content;
+    if (!content) {
+      throw new Error("Gemini did not return any content");
+    }
+
+    return {
+      text: replyText(content.parts),
+      toolCalls: toToolCalls(response.functionCalls),
+    };
+  }
+
+  private async generateStream(
+    params: GenerateContentParameters,
+    onText: (chunk: string) => void
+  ): Promise<GenerateResponse> {
+    const result: GenerateResponse = { text: "", toolCalls: [] };
+    let received = false;
+
+    for await (const chunk of await this.genai.models.generateContentStream(
+      params
+    )) {
+      const content = chunk?.candidates?.[0]?.content;
+      if (!content) continue;
+      received = true;
+      const text = replyText(content.parts);
+      if (text) {
+        result.text += text;
+        onText(text);
+      }
+      result.toolCalls.push(...toToolCalls(chunk.functionCalls));
+    }
+
+    if (!received) {
+      throw new Error("Gemini did not return any content");
+    }
+    return result;
+  }
+}
@@ -0,0 +1,97 @@
+import { getApiKey } from "../config/api";
+import {
+  PROVIDER_NAMES,
+  type ProviderName,
+  type Settings,
+} from "../config/settings";
+import { GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export type * from "./types";
+
+export const DEFAULT_PROVIDER: ProviderName = "gemini";
+
+export const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "llama3.1",
+  mock: "mock",
+};
+
+/** Context window sizes in tokens, by model name prefix; longest match wins. */
+const CONTEXT_TOKENS: Record<string, number> = {
+  gemini: 1_000_000,
+  "gemini-1.0": 32_000,
+  "gpt-4o": 128_000,
+  "gpt-4.1": 1_000_000,
+  "gpt-3.5": 16_000,
+  llama3: 8_000,
+  "llama3.1": 128_000,
+  "llama3.2": 128_000,
+  mistral: 32_000,
+  qwen: 32_000,
+  mock: 8_000,
+};
+
+const DEFAULT_CONTEXT_TOKENS = 8_000;
+
+/** Best guess at a model's context window, in tokens. */
+export function contextTokens(model: string): number {
+  const prefix = Object.keys(CONTEXT_TOKENS)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? CONTEXT_TOKENS[prefix]! : DEFAULT_CONTEXT_TOKENS;
+}
+
+/** `--provider` / `--model` flags; they win over the settings file. */
+export interface ProviderOptions {
+  provider?: string;
+  model?: string;
+}
+
+function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Builds the LLM provider selected by flags, then settings, then defaults.
+ * Credentials are only requested for the provider actually in use.
+ */
+export async function createProvider(
+  settings: Settings,
+  options: ProviderOptions = {}
+): Promise<LLMProvider> {
+  const name = options.provider ?? settings.provider ?? DEFAULT_PROVIDER;
+  if (!isProviderName(name)) {
+    throw new Error(
+      `Unknown provider '${name}'. Expected one of: ${PROVIDER_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+  const model = options.model ?? settings.model ?? DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(await getApiKey(settings.googleApiKey), model);
+    case "openai": {
+      const { baseUrl, apiKey, apiKeyEnv } = settings.providers.openai;
+      return new OpenAICompatibleProvider(
+        baseUrl,
+        model,
+        apiKey ?? process.env[apiKeyEnv]
+      );
+    }
+    case "mock": {
+      const fixture =
+        process.env.GFTS_MOCK_FIXTURE ?? settings.providers.mock.fixture;
+      if (!fixture) {
+        throw new Error(
+          "The mock provider needs a fixture: set GFTS_MOCK_FIXTURE or providers.mock.fixture"
+        );
+      }
+      return new MockProvider(fixture, model);
+    }
+  }
+}
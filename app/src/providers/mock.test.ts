@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MockProvider } from "./mock";
+
+const CLI = path.resolve(import.meta.dir, "../../index.ts");
+
+let tmp: string;
+let repo: string;
+
+function git(...args: string[]): string {
+  const result = Bun.spawnSync(["git", ...args], { cwd: repo });
+  if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+  return result.stdout.toString().trim();
+}
+
+function writeFixture(fixture: object): string {
+  const file = path.join(tmp, "fixture.json");
+  fs.writeFileSync(file, JSON.stringify(fixture));
+  return file;
+}
+
+/** Runs the CLI in the test repo against the mock provider. */
+function gfts(fixture: object, ...args: string[]) {
+  const result = Bun.spawnSync(
+    [process.execPath, CLI, "--provider", "mock", "--yes", ...args],
+    {
+      cwd: repo,
+      env: {
+        ...process.env,
+        HOME: path.join(tmp, "home"),
+        GFTS_MOCK_FIXTURE: writeFixture(fixture),
+      },
+    }
+  );
+  return {
+    exitCode: result.exitCode,
+    output: result.stdout.toString() + result.stderr.toString(),
+  };
+}
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-test-"));
+  repo = path.join(tmp, "repo");
+  fs.mkdirSync(path.join(tmp, "home"));
+  fs.mkdirSync(repo);
+  git("init", "-q");
+  git("config", "user.email", "test@example.com");
+  git("config", "user.name", "Test");
+  fs.writeFileSync(path.join(repo, "README.md"), "# test\n");
+  git("add", ".");
+  git("commit", "-q", "-m", "init");
+});
+
+afterEach(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe("MockProvider", () => {
+  test("replays the first unused response whose match fits", async () => {
+    const provider = new MockProvider(
+      writeFixture({
+        responses: [
+          { match: "second", text: "two" },
+          { text: "one", toolCalls: [{ name: "git_status", args: {} }] },
+        ],
+      })
+    );
+    const first = await provider.generate({
+      messages: [{ role: "user", text: "first" }],
+    });
+    expect(first.text).toBe("one");
+    expect(first.toolCalls).toEqual([
+      { id: "mock_1_0", name: "git_status", args: {} },
+    ]);
+
+    const second = await provider.generate({
+      messages: [{ role: "user", text: "second" }],
+    });
+    expect(second.text).toBe("two");
+    await expect(
+      provider.generate({ messages: [{ role: "user", text: "third" }] })
+    ).rejects.toThrow("no fixture response left");
+  });
+});
+
+describe("with the mock provider", () => {
+  test("the assistant runs the tool calls it is given", () => {
+    const { exitCode, output } = gfts(
+      {
+        responses: [
+          {
+            toolCalls: [
+              {
+                name: "write_file",
+                args: { path: "notes.md", content: "hello\n" },
+              },
+            ],
+          },
+          { match: "notes.md", text: "Wrote notes.md." },
+        ],
+      },
+      "write a notes file"
+    );
+    expect(exitCode).toBe(0);
+    expect(output).toContain("Wrote notes.md.");
+    expect(fs.readFileSync(path.join(repo, "notes.md"), "utf-8")).toBe(
+      "hello\n"
+    );
+  }, 30_000);
+
+  test("auto-commit commits with the generated message", () => {
+    fs.writeFileSync(path.join(repo, "notes.md"), "hello\n");
+    const { exitCode } = gfts(
+      {
+        responses: [
+          {
+            text: JSON.stringify([
+              { type: "docs", subject: "add notes", body: "Short notes." },
+            ]),
+          },
+        ],
+      },
+      "auto-commit",
+      "-a",
+      "--no-push"
+    );
+    expect(exitCode).toBe(0);
+    expect(git("log", "-1", "--format=%B")).toBe(
+      "docs: add notes\n\nShort notes."
+    );
+    expect(git("status", "--porcelain")).toBe("");
+  }, 30_000);
+});
@@ -0,0 +1,84 @@
+import fs from "fs";
+import type {
+  ChatMessage,
+  GenerateRequest,
+  GenerateResponse,
+  LLMProvider,
+  ToolCall,
+} from "./types";
+
+interface FixtureResponse {
+  /** Regex tested against the latest user or tool message, if given. */
+  match?: string;
+  text?: string;
+  toolCalls?: ToolCall[];
+}
+
+interface Fixture {
+  responses: FixtureResponse[];
+}
+
+function lastInput(messages: ChatMessage[]): string {
+  const last = messages[messages.length - 1];
+  if (!last) return "";
+  if (last.role === "user") return last.text;
+  if (last.role === "tool") return JSON.stringify(last.results);
+  return last.text ?? "";
+}
+
+/**
+ * Replays canned responses from a JSON fixture so the CLI can run offline:
+ *
+ *   { "responses": [
+ *       { "toolCalls": [{ "name": "git_status", "args": {} }] },
+ *       { "match": "entries", "text": "feat: add login form" }
+ *   ] }
+ *
+ * Each request takes the first unused response whose `match` (if any)
+ * matches the latest message. Running out of responses is an error.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  private responses: FixtureResponse[];
+  private used = new Set<number>();
+
+  constructor(fixturePath: string, readonly model: string = "mock") {
+    const fixture = JSON.parse(
+      fs.readFileSync(fixturePath, "utf-8")
+    ) as Fixture;
+    if (!Array.isArray(fixture.responses)) {
+      throw new Error(`Mock fixture ${fixturePath} has no "responses" array`);
+    }
+    this.responses = fixture.responses;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const input = lastInput(request.messages);
+    const index = this.responses.findIndex(
+      (response, i) =>
+        !this.used.has(i) &&
+        (!response.match || new RegExp(response.match).test(input))
+    );
+
+    if (index === -1) {
+      throw new Error(
+        "Mock provider has no fixture response left for this request"
+      );
+    }
+    this.used.add(index);
+
+    const response = this.responses[index]!;
+    // Stream word by word so chat output looks like a real provider's.
+    for (const chunk of (response.text ?? "").split(/(?<=\s)/)) {
+      if (chunk) request.onText?.(chunk);
+    }
+    return {
+      text: response.text ?? "",
+      toolCalls: (response.toolCalls ?? []).map((call, i) => ({
+        id: call.id ?? `mock_${index}_${i}`,
+        name: call.name,
+        args: call.args ?? {},
+      })),
+    };
+  }
+}
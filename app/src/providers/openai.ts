@@ -0,0 +1,210 @@
+import type {
+  ChatMessage,
+  GenerateRequest,
+  GenerateResponse,
+  LLMProvider,
+} from "./types";
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIChatResponse {
+  choices?: { message?: OpenAIMessage }[];
+  error?: { message?: string };
+}
+
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+function toMessages(system: string | undefined, messages: ChatMessage[]) {
+  const out: OpenAIMessage[] = system
+    ? [{ role: "system", content: system }]
+    : [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "user":
+        out.push({ role: "user", content: message.text });
+        break;
+      case "assistant":
+        out.push({
+          role: "assistant",
+          content: message.text || null,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map((call, i) => ({
+                id: call.id ?? `call_${i}`,
+                type: "function",
+                function: {
+                  name: call.name,
+                  arguments: JSON.stringify(call.args),
+                },
+              }))
+            : undefined,
+        });
+        break;
+      case "tool":
+        message.results.forEach((result, i) =>
+          out.push({
+            role: "tool",
+            tool_call_id: result.id ?? `call_${i}`,
+            content: JSON.stringify(result.response),
+          })
+        );
+        break;
+    }
+  }
+  return out;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Talks to any `/chat/completions` endpoint: OpenAI itself, or a local
+ * Ollama / llama.cpp / vLLM server.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string,
+    readonly model: string,
+    private apiKey?: string
+  ) {}
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const tools = (request.tools ?? []).map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+    const res = await fetch(
+      `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: toMessages(request.system, request.messages),
+          ...(tools.length ? { tools } : {}),
+          ...(request.onText ? { stream: true } : {}),
+        }),
+      }
+    );
+
+    if (res.ok && request.onText) {
+      return this.readStream(res, request.onText);
+    }
+
+    const body = (await res.json().catch(() => ({}))) as OpenAIChatResponse;
+    if (!res.ok) {
+      throw new Error(
+        `${this.baseUrl} responded ${res.status}: ${
+          body.error?.message ?? res.statusText
+        }`
+      );
+    }
+
+    const message = body.choices?.[0]?.message;
+    if (!message) {
+      throw new Error(`${this.baseUrl} did not return any content`);
+    }
+
+    return {
+      text: message.content ?? "",
+      toolCalls: (message.tool_calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        args: parseArguments(call.function.arguments),
+      })),
+    };
+  }
+
+  /** Reads a server-sent event stream of chat completion chunks. */
+  private async readStream(
+    res: Response,
+    onText: (chunk: string) => void
+  ): Promise<GenerateResponse> {
+    if (!res.body) {
+      throw new Error(`${this.baseUrl} did not return any content`);
+    }
+
+    let text = "";
+    const calls: { id?: string; name: string; arguments: string }[] = [];
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const handle = (line: string) => {
+      const data = line.replace(/^data:\s*/, "");
+      if (!line.startsWith("data:") || data === "[DONE]") return;
+      let chunk: OpenAIStreamChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        return;
+      }
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onText(delta.content);
+      }
+      // Tool calls arrive in fragments, keyed by their index.
+      for (const part of delta?.tool_calls ?? []) {
+        const call = (calls[part.index] ??= { name: "", arguments: "" });
+        if (part.id) call.id = part.id;
+        call.name += part.function?.name ?? "";
+        call.arguments += part.function?.arguments ?? "";
+      }
+    };
+
+    for await (const bytes of res.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach((line) => handle(line.trim()));
+    }
+    handle(buffer.trim());
+
+    return {
+      text,
+      toolCalls: calls.filter(Boolean).map((call) => ({
+        id: call.id,
+        name: call.name,
+        args: parseArguments(call.arguments),
+      })),
+    };
+  }
+}
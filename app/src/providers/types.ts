@@ -0,0 +1,43 @@
+import type { ToolDeclaration } from "../tools/declarations";
+
+export interface ToolCall {
+  /** Provider-assigned id, echoed back with the result when present. */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolCallResult {
+  id?: string;
+  name: string;
+  /** `{ output }` on success, `{ error }` on failure. */
+  response: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: "user"; text: string }
+  | { role: "assistant"; text?: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; results: ToolCallResult[] };
+
+export interface GenerateRequest {
+  system?: string;
+  messages: ChatMessage[];
+  tools?: ToolDeclaration[];
+  /** Receives the reply text as it streams in, when given. */
+  onText?: (chunk: string) => void;
+}
+
+export interface GenerateResponse {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * A chat model that can optionally call tools. Implementations translate
+ * this provider-neutral conversation into their own wire format.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+}
@@ -0,0 +1,123 @@
+type Op = { type: " " | "-" | "+"; line: string };
+
+/** Above this many line pairs the LCS table is skipped for a full rewrite. */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((line) => ({ type: "-" as const, line })),
+      ...b.map((line) => ({ type: "+" as const, line })),
+    ];
+  }
+
+  const cols = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * cols + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * cols + j]!, lcs[i * cols + j + 1]!);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j]! >= lcs[i * cols + j + 1]!) {
+      ops.push({ type: "-", line: a[i++]! });
+    } else {
+      ops.push({ type: "+", line: b[j++]! });
+    }
+  }
+  while (i < a.length) ops.push({ type: "-", line: a[i++]! });
+  while (j < b.length) ops.push({ type: "+", line: b[j++]! });
+  return ops;
+}
+
+/**
+ * Produces a git-style unified diff between two versions of a file.
+ * `before` is null for a new file and `after` is null for a deletion.
+ * Returns an empty string when nothing changed.
+ */
+export function unifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null,
+  context = 3
+): string {
+  if (before === after) return "";
+
+  const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+  const header = [
+    before === null ? "--- /dev/null" : `--- a/${filePath}`,
+    after === null ? "+++ /dev/null" : `+++ b/${filePath}`,
+  ];
+
+  const hunks: string[] = [];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < ops.length) {
+    // Skip unchanged lines until the next change, keeping line counters.
+    while (index < ops.length && ops[index]!.type === " ") {
+      index++;
+      oldLine++;
+      newLine++;
+    }
+    if (index >= ops.length) break;
+
+    const lead = Math.min(context, index);
+    const start = index - lead;
+    const oldStart = oldLine - lead;
+    const newStart = newLine - lead;
+
+    // Extend the hunk while changes are within 2*context lines of each other.
+    let end = index;
+    let gap = 0;
+    while (end < ops.length) {
+      if (ops[end]!.type === " ") {
+        gap++;
+        if (gap > context * 2) break;
+      } else {
+        gap = 0;
+      }
+      end++;
+    }
+    const trail = Math.min(gap, context);
+    end = end - gap + trail;
+
+    const body = ops.slice(start, end);
+    const oldCount = body.filter((op) => op.type !== "+").length;
+    const newCount = body.filter((op) => op.type !== "-").length;
+
+    hunks.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${
+        newCount ? newStart : newStart - 1
+      },${newCount} @@`,
+      ...body.map((op) => `${op.type}${op.line}`)
+    );
+
+    for (const op of ops.slice(index, end)) {
+      if (op.type !== "+") oldLine++;
+      if (op.type !== "-") newLine++;
+    }
+    index = end;
+  }
+
+  return [...header, ...hunks].join("\n");
+}
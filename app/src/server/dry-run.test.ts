@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DryRunServer } from "./dry-run";
+
+let root: string;
+let server: DryRunServer;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-dry-run-"));
+  fs.mkdirSync(path.join(root, "src"));
+  fs.writeFileSync(path.join(root, "src", "a.ts"), "const a = 1;\n");
+  fs.writeFileSync(path.join(root, "src", "b.ts"), "const b = 2;\n");
+  fs.writeFileSync(path.join(root, "README.md"), "# readme\n");
+  server = new DryRunServer(root);
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("directory tools in a dry run", () => {
+  test("see written, deleted and moved files", async () => {
+    await server.writeFile("src/c.ts", "const c = 3;\n");
+    await server.deleteFile("src/a.ts");
+    await server.moveFile("src", "lib");
+
+    expect(await server.listDirectoryTree(".")).toBe(
+      [
+        path.basename(root) + "/",
+        "  lib/",
+        "    b.ts",
+        "    c.ts",
+        "  README.md",
+      ].join("\n")
+    );
+    expect(await server.readDirectoryFiles("lib")).toEqual({
+      files: { "b.ts": "const b = 2;\n", "c.ts": "const c = 3;\n" },
+    });
+    expect(await server.searchFiles("const", { include: ["**/*.ts"] })).toBe(
+      "lib/b.ts:1:const b = 2;\nlib/c.ts:1:const c = 3;"
+    );
+    expect(fs.existsSync(path.join(root, "src", "a.ts"))).toBe(true);
+    expect(fs.existsSync(path.join(root, "lib"))).toBe(false);
+  });
+
+  test("read simulated content and drop removed directories", async () => {
+    await server.writeFile("README.md", "# changed\n".repeat(10));
+    await server.deleteDirectory("src");
+
+    const read = await server.readDirectoryFiles(".", { maxBytes: 20 });
+    expect(read.files).toEqual({
+      "README.md":
+        "# changed\n# changed\n[... truncated: 80 more bytes over the limit]",
+    });
+    expect(await server.searchFiles("const")).toStartWith("No matches");
+    expect(await server.listDirectoryTree("src")).toStartWith("Error");
+  });
+});
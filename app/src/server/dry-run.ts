@@ -0,0 +1,556 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { GftsServer, type ToolResult } from "./index";
+import { parseGitCommand } from "./git";
+import { unifiedDiff } from "./diff";
+import {
+  WALK_DEFAULTS,
+  isBinaryFile,
+  selectFiles,
+  textHead,
+  walkFiles,
+  type WalkOptions,
+  type WalkResult,
+} from "./walk";
+import { classifyGitArgs } from "../policy";
+
+export interface DryRunPlan {
+  writes: { path: string; before: string | null; after: string }[];
+  moves: { source: string; destination: string }[];
+  removals: string[];
+  directories: string[];
+  gitCommands: string[];
+  externalCalls: string[];
+}
+
+const quote = (arg: string) =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * A GftsServer that never touches the disk or the git index. Writes, moves
+ * and deletes land in an in-memory overlay that the file, directory and
+ * search tools see; mutating git commands are recorded instead of run,
+ * read-only ones run.
+ */
+export class DryRunServer extends GftsServer {
+  /** Simulated file contents by absolute path; null marks a deletion. */
+  private overlay = new Map<string, string | null>();
+  /** Original contents of every file written, keyed by relative path. */
+  private originals = new Map<string, string | null>();
+  private removedDirectories = new Set<string>();
+  /** Simulated directory moves, destination to on-disk source. */
+  private movedDirectories = new Map<string, string>();
+  private plan: Omit<DryRunPlan, "writes"> = {
+    moves: [],
+    removals: [],
+    directories: [],
+    gitCommands: [],
+    externalCalls: [],
+  };
+
+  private relative(absPath: string): string {
+    return path.relative(this.workingDirectory, absPath) || ".";
+  }
+
+  private isRemoved(absPath: string): boolean {
+    for (const dir of this.removedDirectories) {
+      if (absPath === dir || absPath.startsWith(dir + path.sep)) return true;
+    }
+    return false;
+  }
+
+  /** Where a path's unchanged content lives on disk, if anywhere. */
+  private diskPath(absPath: string): string | null {
+    if (this.isRemoved(absPath)) return null;
+    for (const [destination, source] of this.movedDirectories) {
+      if (absPath === destination) return source;
+      if (absPath.startsWith(destination + path.sep)) {
+        return source + absPath.slice(destination.length);
+      }
+    }
+    return absPath;
+  }
+
+  /** Current simulated content of a file, or null when it does not exist. */
+  private current(absPath: string): string | null {
+    if (this.overlay.has(absPath)) return this.overlay.get(absPath)!;
+    const diskPath = this.diskPath(absPath);
+    if (!diskPath) return null;
+    try {
+      return fs.statSync(diskPath).isFile()
+        ? fs.readFileSync(diskPath, "utf-8")
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  protected override fileContent(absPath: string): string | null {
+    return this.current(absPath);
+  }
+
+  /**
+   * Simulated paths that exist along with their parent directories: created
+   * and moved directories, and written files.
+   */
+  private *simulatedPaths(): Iterable<string> {
+    const directories = [
+      ...this.plan.directories.map((dir) =>
+        path.resolve(this.workingDirectory, dir)
+      ),
+      ...this.movedDirectories.keys(),
+    ];
+    for (const dir of directories) {
+      if (!this.isRemoved(dir)) yield dir;
+    }
+    for (const [absPath, content] of this.overlay) {
+      if (content !== null) yield absPath;
+    }
+  }
+
+  /** Whether a file exists in the simulation, without reading it. */
+  private isFile(absPath: string): boolean {
+    if (this.overlay.has(absPath)) return this.overlay.get(absPath) !== null;
+    const diskPath = this.diskPath(absPath);
+    try {
+      return !!diskPath && fs.statSync(diskPath).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  protected override isDirectory(absPath: string): boolean {
+    for (const simulated of this.simulatedPaths()) {
+      if (
+        simulated.startsWith(absPath + path.sep) ||
+        (simulated === absPath && !this.overlay.has(absPath))
+      ) {
+        return true;
+      }
+    }
+    const diskPath = this.diskPath(absPath);
+    if (!diskPath) return false;
+    try {
+      return fs.statSync(diskPath).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Walks the directory's on-disk content and that of directories moved
+   * into it, drops what the simulation deleted and adds written files.
+   */
+  protected override walk(absPath: string, options: WalkOptions): WalkResult {
+    const maxDepth = options.maxDepth ?? WALK_DEFAULTS.maxDepth;
+    // Look past maxFiles by enough to make up for simulated deletions.
+    const maxFiles =
+      (options.maxFiles ?? WALK_DEFAULTS.maxFiles) + this.overlay.size;
+    const relative = (file: string) =>
+      path.relative(absPath, file).split(path.sep).join("/");
+    const inside = (file: string) => file.startsWith(absPath + path.sep);
+
+    const sources: [string, string | null][] = [
+      [absPath, this.diskPath(absPath)],
+      ...[...this.movedDirectories].filter(([destination]) =>
+        inside(destination)
+      ),
+    ];
+    const found = new Set<string>();
+    let omitted = 0;
+    let incomplete = false;
+    for (const [directory, diskPath] of sources) {
+      if (!diskPath || !fs.existsSync(diskPath)) continue;
+      if (!fs.statSync(diskPath).isDirectory()) continue;
+      const prefix = directory === absPath ? "" : relative(directory);
+      // Globs are relative to absPath, so only the main walk can take them.
+      const walk = walkFiles(
+        diskPath,
+        prefix
+          ? { maxDepth: maxDepth - prefix.split("/").length, maxFiles }
+          : { ...options, maxDepth, maxFiles }
+      );
+      omitted += walk.omitted;
+      incomplete ||= !!walk.incomplete;
+      for (const file of walk.files) {
+        if (this.isFile(path.join(directory, file))) {
+          found.add(prefix ? `${prefix}/${file}` : file);
+        }
+      }
+    }
+    for (const [file, content] of this.overlay) {
+      if (content !== null && inside(file)) found.add(relative(file));
+    }
+
+    const result = selectFiles([...found], options);
+    return {
+      files: result.files,
+      omitted: result.omitted + omitted,
+      ...(incomplete ? { incomplete } : {}),
+    };
+  }
+
+  protected override isBinary(absPath: string): boolean {
+    if (this.overlay.has(absPath)) return false;
+    const diskPath = this.diskPath(absPath);
+    return !!diskPath && isBinaryFile(diskPath);
+  }
+
+  protected override textHead(
+    absPath: string,
+    maxBytes: number
+  ): { text: string; size: number } {
+    const content = this.current(absPath) ?? "";
+    return {
+      text: textHead(content, maxBytes),
+      size: Buffer.byteLength(content),
+    };
+  }
+
+  private stage(absPath: string, content: string | null) {
+    const rel = this.relative(absPath);
+    if (!this.originals.has(rel)) {
+      this.originals.set(rel, this.current(absPath));
+    }
+    this.overlay.set(absPath, content);
+  }
+
+  /** Records a mutating git command in the plan instead of running it. */
+  recordGit(args: string[]): ToolResult {
+    const command = ["git", ...args.map(quote)].join(" ");
+    this.plan.gitCommands.push(command);
+    return {
+      stdout: `Dry-run: would run ${command}`,
+      stderr: "",
+      return_code: 0,
+    };
+  }
+
+  recordExternalCall(name: string, args: Record<string, unknown>) {
+    this.plan.externalCalls.push(`${name}(${JSON.stringify(args)})`);
+  }
+
+  // ---------------------- File System ----------------------
+  override async readFile(filePath: string): Promise<string> {
+    try {
+      const content = this.current(this.getSafePath(filePath));
+      return (
+        content ?? `Error: Path is not a file or does not exist: '${filePath}'`
+      );
+    } catch (err: any) {
+      return `Error reading file '${filePath}': ${err.message}`;
+    }
+  }
+
+  override async listFiles(dirPath: string): Promise<string> {
+    try {
+      const safePath = this.getSafePath(dirPath);
+      if (!this.isDirectory(safePath))
+        return `Error: Path is not a directory or does not exist: '${dirPath}'`;
+
+      const diskPath = this.diskPath(safePath);
+      const names = new Set(
+        diskPath &&
+        fs.existsSync(diskPath) &&
+        fs.statSync(diskPath).isDirectory()
+          ? fs.readdirSync(diskPath)
+          : []
+      );
+      for (const name of [...names]) {
+        if (!this.diskPath(path.join(safePath, name))) names.delete(name);
+      }
+      for (const absPath of this.simulatedPaths()) {
+        const rel = path.relative(safePath, absPath);
+        if (rel && !rel.startsWith("..")) names.add(rel.split(path.sep)[0]!);
+      }
+      for (const [absPath, content] of this.overlay) {
+        if (content === null && path.dirname(absPath) === safePath) {
+          names.delete(path.basename(absPath));
+        }
+      }
+      return names.size ? [...names].join("\n") : "Directory is empty.";
+    } catch (err: any) {
+      return `Error listing files at '${dirPath}': ${err.message}`;
+    }
+  }
+
+  override async writeFile(filePath: string, content: string): Promise<string> {
+    try {
+      this.stage(this.getSafePath(filePath), content);
+      return `Dry-run: would write to '${filePath}'.`;
+    } catch (err: any) {
+      return `Error writing to file '${filePath}': ${err.message}`;
+    }
+  }
+
+  override async appendFile(
+    filePath: string,
+    content: string
+  ): Promise<string> {
+    try {
+      const safePath = this.getSafePath(filePath);
+      this.stage(safePath, (this.current(safePath) ?? "") + content);
+      return `Dry-run: would append to '${filePath}'.`;
+    } catch (err: any) {
+      return `Error appending to file '${filePath}': ${err.message}`;
+    }
+  }
+
+  override async moveFile(
+    source: string,
+    destination: string
+  ): Promise<string> {
+    try {
+      const safeSource = this.getSafePath(source);
+      const safeDestination = this.getSafePath(destination);
+      const content = this.current(safeSource);
+
+      if (content !== null) {
+        this.stage(safeDestination, content);
+        this.stage(safeSource, null);
+      } else if (this.isDirectory(safeSource)) {
+        this.moveDirectory(safeSource, safeDestination);
+      } else {
+        return `Error moving '${source}' to '${destination}': source does not exist`;
+      }
+
+      this.plan.moves.push({
+        source: this.relative(safeSource),
+        destination: this.relative(safeDestination),
+      });
+      return `Dry-run: would move '${source}' to '${destination}'.`;
+    } catch (err: any) {
+      return `Error moving '${source}' to '${destination}': ${err.message}`;
+    }
+  }
+
+  override async deleteFile(filePath: string): Promise<string> {
+    try {
+      const safePath = this.getSafePath(filePath);
+      if (this.current(safePath) === null)
+        return `Error: Path is not a file or does not exist: '${filePath}'`;
+
+      this.stage(safePath, null);
+      this.plan.removals.push(this.relative(safePath));
+      return `Dry-run: would delete file '${filePath}'.`;
+    } catch (err: any) {
+      return `Error deleting file '${filePath}': ${err.message}`;
+    }
+  }
+
+  override async createDirectory(dirPath: string): Promise<string> {
+    try {
+      const safePath = this.getSafePath(dirPath);
+      this.removedDirectories.delete(safePath);
+      this.plan.directories.push(this.relative(safePath));
+      return `Dry-run: would create directory '${dirPath}'.`;
+    } catch (err: any) {
+      return `Error creating directory '${dirPath}': ${err.message}`;
+    }
+  }
+
+  override async deleteDirectory(dirPath: string): Promise<string> {
+    try {
+      const safePath = this.getSafePath(dirPath);
+      if (!this.isDirectory(safePath))
+        return `Error: Path is not a directory or does not exist: '${dirPath}'`;
+
+      this.removedDirectories.add(safePath);
+      for (const absPath of this.overlay.keys()) {
+        if (absPath.startsWith(safePath + path.sep)) this.stage(absPath, null);
+      }
+      this.plan.removals.push(`${this.relative(safePath)}/`);
+      return `Dry-run: would delete directory '${dirPath}' and all its contents.`;
+    } catch (err: any) {
+      return `Error deleting directory '${dirPath}': ${err.message}`;
+    }
+  }
+
+  /**
+   * Points the destination at the source's on-disk content and carries over
+   * the simulated changes inside it.
+   */
+  private moveDirectory(source: string, destination: string) {
+    const inside = (absPath: string) => absPath.startsWith(source + path.sep);
+    const diskSource = this.diskPath(source);
+
+    for (const [absPath, content] of [...this.overlay]) {
+      if (!inside(absPath)) continue;
+      this.stage(destination + absPath.slice(source.length), content);
+      this.stage(absPath, null);
+    }
+    this.plan.directories = this.plan.directories.filter((dir) => {
+      const absPath = path.resolve(this.workingDirectory, dir);
+      return absPath !== source && !inside(absPath);
+    });
+
+    this.removedDirectories.delete(destination);
+    this.removedDirectories.add(source);
+    if (diskSource) {
+      // Latest first, so the new mapping wins over older ones around it.
+      this.movedDirectories = new Map([
+        [destination, diskSource],
+        ...this.movedDirectories,
+      ]);
+    }
+  }
+
+  // ---------------------- Git Commands ----------------------
+  override async runGitCommand(command: string): Promise<ToolResult> {
+    let args: string[];
+    try {
+      args = parseGitCommand(command);
+    } catch (err: any) {
+      return { stdout: "", stderr: err.message, return_code: 1 };
+    }
+    if (classifyGitArgs(args) === "read-only") {
+      return super.runGitCommand(command);
+    }
+    return this.recordGit(args);
+  }
+
+  override async gitBranchCreate(
+    name: string,
+    startPoint?: string,
+    checkout = false
+  ): Promise<ToolResult> {
+    const args = checkout ? ["switch", "-c", name] : ["branch", name];
+    return this.recordGit(startPoint ? [...args, startPoint] : args);
+  }
+
+  override async gitBranchSwitch(name: string): Promise<ToolResult> {
+    return this.recordGit(["switch", name]);
+  }
+
+  override async gitBranchDelete(
+    name: string,
+    force = false
+  ): Promise<ToolResult> {
+    return this.recordGit(["branch", force ? "-D" : "-d", name]);
+  }
+
+  override async gitStash(
+    action: "push" | "pop" | "apply" | "list" | "drop",
+    options: { message?: string; index?: number } = {}
+  ): Promise<ToolResult> {
+    if (action === "list") return super.gitStash(action, options);
+    const args = ["stash", action];
+    if (action === "push" && options.message) args.push("-m", options.message);
+    if (action !== "push" && options.index !== undefined)
+      args.push(`stash@{${options.index}}`);
+    return this.recordGit(args);
+  }
+
+  override async gitTag(
+    action: "create" | "list" | "delete",
+    options: { name?: string; message?: string; ref?: string } = {}
+  ): Promise<ToolResult> {
+    if (action === "list") return super.gitTag(action, options);
+    if (action === "delete")
+      return this.recordGit(["tag", "-d", options.name ?? ""]);
+    const args = ["tag"];
+    if (options.message) args.push("-a", "-m", options.message);
+    args.push(options.name ?? "");
+    if (options.ref) args.push(options.ref);
+    return this.recordGit(args);
+  }
+
+  override async gitAdd(paths: string[]): Promise<ToolResult> {
+    try {
+      if (!paths.length) return { error: "No paths given to stage" };
+      const pathspecs = paths.map((p) => this.relative(this.getSafePath(p)));
+      return this.recordGit(["add", "--", ...pathspecs]);
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }
+
+  override async gitCommit(
+    message: string,
+    amend = false
+  ): Promise<ToolResult> {
+    return this.recordGit(
+      amend ? ["commit", "--amend", "-m", message] : ["commit", "-m", message]
+    );
+  }
+
+  // ---------------------- Plan ----------------------
+  getPlan(): DryRunPlan {
+    const writes: DryRunPlan["writes"] = [];
+    for (const [rel, before] of this.originals) {
+      const after = this.overlay.get(path.resolve(this.workingDirectory, rel));
+      if (after !== null && after !== undefined && after !== before) {
+        writes.push({ path: rel, before, after });
+      }
+    }
+    return { writes, ...this.plan };
+  }
+}
+
+export function isEmptyPlan(plan: DryRunPlan): boolean {
+  return (
+    !plan.writes.length &&
+    !plan.moves.length &&
+    !plan.removals.length &&
+    !plan.directories.length &&
+    !plan.gitCommands.length &&
+    !plan.externalCalls.length
+  );
+}
+
+export function colorDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---"))
+        return chalk.bold(line);
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return chalk.dim(line);
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a plan for the terminal: diffs for writes, then moves, removals,
+ * new directories, git commands and calls to external MCP tools.
+ */
+export function formatDryRunPlan(plan: DryRunPlan): string {
+  if (isEmptyPlan(plan)) return chalk.dim("No changes would be made.");
+
+  const sections: string[] = [];
+  const section = (title: string, lines: string[]) => {
+    if (lines.length) sections.push([chalk.bold(title), ...lines].join("\n"));
+  };
+
+  section(
+    "Files to write:",
+    plan.writes.map((write) =>
+      colorDiff(unifiedDiff(write.path, write.before, write.after))
+    )
+  );
+  section(
+    "Paths to move:",
+    plan.moves.map((m) => chalk.yellow(`  ${m.source} → ${m.destination}`))
+  );
+  section(
+    "Paths to remove:",
+    plan.removals.map((p) => chalk.red(`  ${p}`))
+  );
+  section(
+    "Directories to create:",
+    plan.directories.map((p) => chalk.green(`  ${p}/`))
+  );
+  section(
+    "Git commands to run:",
+    plan.gitCommands.map((c) => chalk.cyan(`  $ ${c}`))
+  );
+  section(
+    "External tool calls:",
+    plan.externalCalls.map((c) => chalk.magenta(`  ${c}`))
+  );
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,286 @@
+import { spawnSync } from "child_process";
+
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+  return_code: number;
+}
+
+export interface GitRunOptions {
+  cwd: string;
+  timeoutMs?: number;
+  /** Written to git's stdin, e.g. a patch for `git apply`. */
+  input?: string;
+  /** Extra environment variables, e.g. GIT_INDEX_FILE. */
+  env?: Record<string, string>;
+}
+
+/**
+ * Runs git with an argv array. Nothing goes through a shell, so arguments
+ * are never re-interpreted for quotes, globs or `$()`.
+ */
+export function runGit(args: string[], options: GitRunOptions): GitResult {
+  const result = spawnSync("git", args, {
+    cwd: options.cwd,
+    encoding: "utf-8",
+    timeout: options.timeoutMs,
+    input: options.input,
+    env: options.env ? { ...process.env, ...options.env } : undefined,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+
+  if (result.error) {
+    return { stdout: "", stderr: result.error.message, return_code: 1 };
+  }
+
+  return {
+    stdout: result.stdout.trimEnd(),
+    stderr: result.stderr.trim(),
+    return_code: result.status ?? 1,
+  };
+}
+
+/** A git invocation that exited non-zero, with its structured result. */
+export class GitError extends Error {
+  constructor(readonly args: string[], readonly result: GitResult) {
+    super(
+      result.stderr ||
+        result.stdout ||
+        `git ${args[0] ?? ""} exited with code ${result.return_code}`
+    );
+    this.name = "GitError";
+  }
+}
+
+/**
+ * Like runGit, but throws a GitError when git exits non-zero. For callers
+ * that abort on failure rather than report it as a value.
+ */
+export function runGitChecked(
+  args: string[],
+  options: GitRunOptions
+): GitResult {
+  const result = runGit(args, options);
+  if (result.return_code !== 0) throw new GitError(args, result);
+  return result;
+}
+
+/**
+ * Splits a command line into argv the way a POSIX shell would for plain
+ * words and quotes, without expanding variables, globs or substitutions.
+ */
+export function splitArgs(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"' && i + 1 < command.length)
+        current += command[++i];
+      else current += ch;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (ch === "\\" && i + 1 < command.length) {
+      current += command[++i];
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) args.push(current);
+      current = "";
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+
+  if (quote) throw new Error(`Unterminated ${quote} quote in: ${command}`);
+  if (inToken) args.push(current);
+  return args;
+}
+
+/**
+ * Splits a model-supplied git command and checks that it starts with a
+ * plain subcommand. Global options such as -c, -C, --git-dir or
+ * --exec-path would let it leave the project or run arbitrary programs.
+ */
+export function parseGitCommand(command: string): string[] {
+  const args = splitArgs(command);
+  if (args[0] === "git") args.shift();
+  const [sub] = args;
+  if (!sub) throw new Error("No git subcommand given");
+  if (sub.startsWith("-")) {
+    throw new Error(
+      `Global git options are not allowed ('${sub}'); start the command with the subcommand`
+    );
+  }
+  if (!/^[a-z][a-z0-9-]*$/.test(sub)) {
+    throw new Error(`'${sub}' is not a git subcommand`);
+  }
+  return args;
+}
+
+// ---------------------- Parsers ----------------------
+export interface GitStatusEntry {
+  kind: "changed" | "renamed" | "unmerged" | "untracked" | "ignored";
+  path: string;
+  origPath?: string;
+  /** Index (staged) status letter, "." when unchanged. */
+  index: string;
+  /** Worktree (unstaged) status letter, "." when unchanged. */
+  worktree: string;
+}
+
+export interface GitStatus {
+  branch: {
+    head: string | null;
+    oid: string | null;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+  };
+  entries: GitStatusEntry[];
+}
+
+/**
+ * Parses `git status --porcelain=v2 --branch -z`.
+ */
+export function parseStatusV2(output: string): GitStatus {
+  const status: GitStatus = {
+    branch: { head: null, oid: null, upstream: null, ahead: 0, behind: 0 },
+    entries: [],
+  };
+  const records = output.split("\0");
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]!;
+    if (!record) continue;
+
+    if (record.startsWith("# ")) {
+      const [, key, ...rest] = record.split(" ");
+      const value = rest.join(" ");
+      if (key === "branch.head")
+        status.branch.head = value === "(detached)" ? null : value;
+      else if (key === "branch.oid")
+        status.branch.oid = value === "(initial)" ? null : value;
+      else if (key === "branch.upstream") status.branch.upstream = value;
+      else if (key === "branch.ab") {
+        const m = value.match(/^\+(\d+) -(\d+)$/);
+        status.branch.ahead = Number(m?.[1] ?? 0);
+        status.branch.behind = Number(m?.[2] ?? 0);
+      }
+      continue;
+    }
+
+    const type = record[0];
+    if (type === "?" || type === "!") {
+      status.entries.push({
+        kind: type === "?" ? "untracked" : "ignored",
+        path: record.slice(2),
+        index: type,
+        worktree: type,
+      });
+    } else if (type === "1") {
+      // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+      const fields = record.split(" ");
+      const xy = fields[1] ?? "..";
+      status.entries.push({
+        kind: "changed",
+        path: fields.slice(8).join(" "),
+        index: xy[0]!,
+        worktree: xy[1]!,
+      });
+    } else if (type === "2") {
+      // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>\0<origPath>
+      const fields = record.split(" ");
+      const xy = fields[1] ?? "..";
+      status.entries.push({
+        kind: "renamed",
+        path: fields.slice(9).join(" "),
+        origPath: records[++i],
+        index: xy[0]!,
+        worktree: xy[1]!,
+      });
+    } else if (type === "u") {
+      // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+      const fields = record.split(" ");
+      const xy = fields[1] ?? "..";
+      status.entries.push({
+        kind: "unmerged",
+        path: fields.slice(10).join(" "),
+        index: xy[0]!,
+        worktree: xy[1]!,
+      });
+    }
+  }
+
+  return status;
+}
+
+export interface GitNumstat {
+  path: string;
+  /** null for binary files. */
+  additions: number | null;
+  deletions: number | null;
+}
+
+/**
+ * Parses `git diff --numstat` output.
+ */
+export function parseNumstat(output: string): GitNumstat[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [added = "-", deleted = "-", ...rest] = line.split("\t");
+      return {
+        path: rest.join("\t"),
+        additions: added === "-" ? null : Number(added),
+        deletions: deleted === "-" ? null : Number(deleted),
+      };
+    });
+}
+
+export interface GitLogEntry {
+  hash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+}
+
+const FIELD_SEP = "\x1f";
+const RECORD_SEP = "\x1e";
+
+export const LOG_FORMAT =
+  ["%H", "%an", "%ae", "%aI", "%s", "%b"].join(FIELD_SEP) + RECORD_SEP;
+
+/**
+ * Parses `git log --format=<LOG_FORMAT>` output.
+ */
+export function parseLog(output: string): GitLogEntry[] {
+  return output
+    .split(RECORD_SEP)
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [
+        hash = "",
+        author = "",
+        email = "",
+        date = "",
+        subject = "",
+        body = "",
+      ] = record.split(FIELD_SEP);
+      return { hash, author, email, date, subject, body: body.trim() };
+    });
+}
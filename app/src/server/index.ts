@@ -1,22 +1,64 @@
 import fs from "fs";
 import path from "path";
-import { execSync } from "child_process";
+import {
+  LOG_FORMAT,
+  parseLog,
+  parseNumstat,
+  parseStatusV2,
+  parseGitCommand,
+  runGit,
+  type GitResult,
+} from "./git";
+import {
+  WALK_DEFAULTS,
+  buildTree,
+  isBinaryFile,
+  readTextHead,
+  renderTree,
+  truncateText,
+  walkFiles,
+  type WalkOptions,
+  type WalkResult,
+} from "./walk";
+import {
+  SEARCH_DEFAULTS,
+  compilePattern,
+  matchLines,
+  type SearchOptions,
+} from "./search";
+import {
+  applyEdits,
+  applyFilePatch,
+  parseUnifiedDiff,
+  type SearchReplaceEdit,
+} from "./patch";
+import { unifiedDiff } from "./diff";
 
 export type ToolResult =
   | { stdout?: string; stderr?: string; return_code?: number }
   | string
   | Record<string, any>;
 
+/** Diff output echoed back after a patch or edit is applied. */
+const MAX_PATCH_ECHO_BYTES = 16 * 1024;
+
+interface FileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
 export class GftsServer {
-  private workingDirectory: string;
+  protected workingDirectory: string;
   static readonly DEFAULT_TIMEOUT = 120000;
+  static readonly MAX_RANGE_LINES = 500;
 
   constructor(workingDirectory: string) {
     this.workingDirectory = path.resolve(workingDirectory);
   }
 
   // ---------------------- Helpers ----------------------
-  private getSafePath(targetPathStr: string): string {
+  protected getSafePath(targetPathStr: string): string {
     const targetPath = path.resolve(this.workingDirectory, targetPathStr);
 
     if (!targetPath.startsWith(this.workingDirectory)) {
@@ -27,7 +69,43 @@ export class GftsServer {
     return targetPath;
   }
 
-  private wrapWithTimeout<T>(
+  /** Text of a file, or null when it is missing or not a regular file. */
+  protected fileContent(absPath: string): string | null {
+    try {
+      return fs.statSync(absPath).isFile()
+        ? fs.readFileSync(absPath, "utf-8")
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Whether a path is an existing directory. */
+  protected isDirectory(absPath: string): boolean {
+    return fs.existsSync(absPath) && fs.statSync(absPath).isDirectory();
+  }
+
+  /** Files under a directory for the tree, read and search tools. */
+  protected walk(absPath: string, options: WalkOptions): WalkResult {
+    return walkFiles(absPath, options);
+  }
+
+  protected isBinary(absPath: string): boolean {
+    return isBinaryFile(absPath);
+  }
+
+  /** The start of a text file within maxBytes, and its full size. */
+  protected textHead(
+    absPath: string,
+    maxBytes: number
+  ): { text: string; size: number } {
+    return {
+      text: readTextHead(absPath, maxBytes),
+      size: fs.statSync(absPath).size,
+    };
+  }
+
+  protected wrapWithTimeout<T>(
     operation: () => T,
     timeoutMs: number = GftsServer.DEFAULT_TIMEOUT
   ): Promise<T> {
@@ -47,26 +125,300 @@ export class GftsServer {
     });
   }
 
+  private git(args: string[], input?: string): GitResult {
+    return runGit(args, {
+      cwd: this.workingDirectory,
+      timeoutMs: GftsServer.DEFAULT_TIMEOUT,
+      input,
+    });
+  }
+
+  /**
+   * Returns `onSuccess()` for a zero exit code, otherwise a structured error
+   * carrying git's own message.
+   */
+  private gitOutcome(
+    result: GitResult,
+    onSuccess: () => Record<string, any>
+  ): Record<string, any> {
+    if (result.return_code !== 0) {
+      return {
+        error: result.stderr || result.stdout || "git command failed",
+        return_code: result.return_code,
+      };
+    }
+    return onSuccess();
+  }
+
+  private assertRefName(name: string, label = "name"): string {
+    if (!name || name.startsWith("-")) {
+      throw new Error(`Invalid ${label}: '${name}'`);
+    }
+    return name;
+  }
+
+  private safePathspecs(paths: string[]): string[] {
+    return paths.map(
+      (p) => path.relative(this.workingDirectory, this.getSafePath(p)) || "."
+    );
+  }
+
   // ---------------------- Git Commands ----------------------
   async runGitCommand(command: string): Promise<ToolResult> {
     return this.wrapWithTimeout(() => {
       try {
-        const fullCommand = `git ${command}`;
-        const stdout = execSync(fullCommand, {
-          cwd: this.workingDirectory,
-          encoding: "utf-8",
-        });
-        return { stdout: stdout.trim(), stderr: "", return_code: 0 };
+        return this.git(parseGitCommand(command));
       } catch (err: any) {
-        return {
-          stdout: "",
-          stderr: err.message,
-          return_code: err.status ?? 1,
-        };
+        return { stdout: "", stderr: err.message, return_code: 1 };
+      }
+    });
+  }
+
+  async gitStatus(): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      const result = this.git(["status", "--porcelain=v2", "--branch", "-z"]);
+      return this.gitOutcome(result, () => parseStatusV2(result.stdout));
+    });
+  }
+
+  async gitDiff(
+    options: { staged?: boolean; ref?: string; paths?: string[] } = {}
+  ): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const base = ["diff", "--no-color"];
+        if (options.staged) base.push("--staged");
+        if (options.ref) base.push(this.assertRefName(options.ref, "ref"));
+        const pathspecs = ["--", ...this.safePathspecs(options.paths ?? [])];
+
+        const numstat = this.git([...base, "--numstat", ...pathspecs]);
+        if (numstat.return_code !== 0)
+          return this.gitOutcome(numstat, () => ({}));
+        const patch = this.git([...base, ...pathspecs]);
+        return this.gitOutcome(patch, () => ({
+          files: parseNumstat(numstat.stdout),
+          diff: patch.stdout,
+        }));
+      } catch (err: any) {
+        return { error: err.message };
       }
     });
   }
 
+  async gitLog(
+    options: { maxCount?: number; ref?: string; path?: string } = {}
+  ): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const args = [
+          "log",
+          `--max-count=${Math.max(1, Math.floor(options.maxCount ?? 20))}`,
+          `--format=${LOG_FORMAT}`,
+        ];
+        if (options.ref) args.push(this.assertRefName(options.ref, "ref"));
+        if (options.path)
+          args.push("--", ...this.safePathspecs([options.path]));
+        const result = this.git(args);
+        return this.gitOutcome(result, () => ({
+          commits: parseLog(result.stdout),
+        }));
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitBranchList(): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      const result = this.git([
+        "branch",
+        "--list",
+        "--format=%(HEAD)%09%(refname:short)%09%(upstream:short)",
+      ]);
+      return this.gitOutcome(result, () => ({
+        branches: result.stdout
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => {
+            const [head = "", name = "", upstream = ""] = line.split("\t");
+            return {
+              name,
+              current: head === "*",
+              upstream: upstream || null,
+            };
+          }),
+      }));
+    });
+  }
+
+  async gitBranchCreate(
+    name: string,
+    startPoint?: string,
+    checkout = false
+  ): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const args = checkout
+          ? ["switch", "-c", this.assertRefName(name)]
+          : ["branch", this.assertRefName(name)];
+        if (startPoint)
+          args.push(this.assertRefName(startPoint, "start point"));
+        const result = this.git(args);
+        return this.gitOutcome(result, () => ({
+          branch: name,
+          created: true,
+          checkedOut: checkout,
+        }));
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitBranchSwitch(name: string): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const result = this.git(["switch", this.assertRefName(name)]);
+        return this.gitOutcome(result, () => ({
+          branch: name,
+          switched: true,
+        }));
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitBranchDelete(name: string, force = false): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const result = this.git([
+          "branch",
+          force ? "-D" : "-d",
+          this.assertRefName(name),
+        ]);
+        return this.gitOutcome(result, () => ({ branch: name, deleted: true }));
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitStash(
+    action: "push" | "pop" | "apply" | "list" | "drop",
+    options: { message?: string; index?: number } = {}
+  ): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      const ref =
+        options.index === undefined
+          ? []
+          : [`stash@{${Math.max(0, Math.floor(options.index))}}`];
+      let args: string[];
+      switch (action) {
+        case "push":
+          args = ["stash", "push", "--include-untracked"];
+          if (options.message) args.push("-m", options.message);
+          break;
+        case "list":
+          args = ["stash", "list", "--format=%gd%x09%s"];
+          break;
+        case "pop":
+        case "apply":
+        case "drop":
+          args = ["stash", action, ...ref];
+          break;
+        default:
+          return { error: `Unknown stash action: ${action}` };
+      }
+
+      const result = this.git(args);
+      return this.gitOutcome(result, () =>
+        action === "list"
+          ? {
+              stashes: result.stdout
+                .split("\n")
+                .filter(Boolean)
+                .map((line) => {
+                  const [ref = "", message = ""] = line.split("\t");
+                  return { ref, message };
+                }),
+            }
+          : { action, output: result.stdout || result.stderr }
+      );
+    });
+  }
+
+  async gitTag(
+    action: "create" | "list" | "delete",
+    options: { name?: string; message?: string; ref?: string } = {}
+  ): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        let args: string[];
+        switch (action) {
+          case "list":
+            args = ["tag", "--list", "--sort=-creatordate"];
+            break;
+          case "create":
+            args = ["tag"];
+            if (options.message) args.push("-a", "-m", options.message);
+            args.push(this.assertRefName(options.name ?? "", "tag name"));
+            if (options.ref) args.push(this.assertRefName(options.ref, "ref"));
+            break;
+          case "delete":
+            args = [
+              "tag",
+              "-d",
+              this.assertRefName(options.name ?? "", "tag name"),
+            ];
+            break;
+          default:
+            return { error: `Unknown tag action: ${action}` };
+        }
+
+        const result = this.git(args);
+        return this.gitOutcome(result, () =>
+          action === "list"
+            ? { tags: result.stdout.split("\n").filter(Boolean) }
+            : { action, tag: options.name }
+        );
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitAdd(paths: string[]): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      try {
+        if (!paths.length) return { error: "No paths given to stage" };
+        const pathspecs = this.safePathspecs(paths);
+        const result = this.git(["add", "--", ...pathspecs]);
+        return this.gitOutcome(result, () => ({ staged: pathspecs }));
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    });
+  }
+
+  async gitCommit(message: string, amend = false): Promise<ToolResult> {
+    return this.wrapWithTimeout(() => {
+      if (!message.trim()) return { error: "Commit message cannot be empty" };
+      // The message goes in on stdin, so subject and body arrive verbatim.
+      const args = ["commit", "-F", "-"];
+      if (amend) args.push("--amend");
+      const result = this.git(args, message);
+      if (result.return_code !== 0) return this.gitOutcome(result, () => ({}));
+
+      const head = this.git(["rev-parse", "HEAD"]);
+      return {
+        commit: head.stdout,
+        amended: amend,
+        summary: result.stdout.split("\n")[0] ?? "",
+      };
+    });
+  }
+
   // ---------------------- File System ----------------------
   async listFiles(dirPath: string): Promise<string> {
     return this.wrapWithTimeout(() => {
@@ -135,6 +487,7 @@ export class GftsServer {
           path.basename(destination)
         );
 
+        fs.mkdirSync(safeDestParent, { recursive: true });
         fs.renameSync(safeSource, safeDestination);
         return `Successfully moved '${source}' to '${destination}'.`;
       } catch (err: any) {
@@ -185,49 +538,101 @@ export class GftsServer {
     });
   }
 
-  async listDirectoryTree(dirPath: string): Promise<string> {
+  /**
+   * Lists the files under a directory as a tree, skipping what git ignores
+   * and stopping at the walk limits with a truncation marker.
+   */
+  async listDirectoryTree(
+    dirPath: string,
+    options: WalkOptions = {}
+  ): Promise<string> {
     return this.wrapWithTimeout(() => {
       try {
         const safePath = this.getSafePath(dirPath);
-        if (!fs.existsSync(safePath))
-          return `Error: Path does not exist: '${dirPath}'`;
-
-        const buildTree = (currentPath: string, indent = ""): string[] => {
-          const entries = fs.readdirSync(currentPath, { withFileTypes: true });
-          let result: string[] = [`${indent}${path.basename(currentPath)}/`];
-          for (const entry of entries) {
-            const entryPath = path.join(currentPath, entry.name);
-            if (entry.isDirectory())
-              result.push(...buildTree(entryPath, indent + "    "));
-            else result.push(`${indent}    ${entry.name}`);
-          }
-          return result;
-        };
+        if (!this.isDirectory(safePath))
+          return `Error: Path is not a directory or does not exist: '${dirPath}'`;
 
-        return buildTree(safePath).join("\n");
+        const { files, omitted, incomplete, ignored } = this.walk(
+          safePath,
+          options
+        );
+        const lines = [
+          `${path.basename(safePath)}/`,
+          ...renderTree(buildTree(files), Infinity, "  "),
+        ];
+        if (ignored) lines.push("  (ignored by .gitignore)");
+        if (omitted || incomplete) {
+          lines.push(
+            `[... ${
+              incomplete ? "more" : `${omitted} more`
+            } files not shown: maxDepth, maxFiles or globs]`
+          );
+        }
+        return truncateText(
+          lines.join("\n"),
+          options.maxBytes ?? WALK_DEFAULTS.maxBytes
+        );
       } catch (err: any) {
         return `Error listing directory tree at '${dirPath}': ${err.message}`;
       }
     });
   }
 
-  async readDirectoryFiles(dirPath: string): Promise<Record<string, any>> {
+  /**
+   * Reads the text files in a directory, recursively if asked, under the
+   * same limits as listDirectoryTree. Binary files are named, not read.
+   */
+  async readDirectoryFiles(
+    dirPath: string,
+    options: WalkOptions & { recursive?: boolean } = {}
+  ): Promise<Record<string, any>> {
     return this.wrapWithTimeout(() => {
       try {
         const safePath = this.getSafePath(dirPath);
-        if (!fs.existsSync(safePath) || !fs.statSync(safePath).isDirectory())
+        if (!this.isDirectory(safePath))
           return { error: `Path is not a directory: '${dirPath}'` };
 
-        const fileContents: Record<string, string> = {};
-        for (const entry of fs.readdirSync(safePath)) {
-          const entryPath = path.join(safePath, entry);
-          if (fs.statSync(entryPath).isFile())
-            fileContents[entry] = fs.readFileSync(entryPath, "utf-8");
+        const walk = this.walk(safePath, {
+          ...options,
+          maxDepth: options.recursive ? options.maxDepth : 1,
+        });
+        let budget = options.maxBytes ?? WALK_DEFAULTS.maxBytes;
+        const files: Record<string, string> = {};
+        const binary: string[] = [];
+        let unread = 0;
+
+        for (const file of walk.files) {
+          const filePath = path.join(safePath, file);
+          if (this.isBinary(filePath)) {
+            binary.push(file);
+          } else if (budget <= 0) {
+            unread++;
+          } else {
+            const head = this.textHead(filePath, budget);
+            files[file] = head.text;
+            budget -= head.size;
+          }
         }
 
-        return Object.keys(fileContents).length
-          ? fileContents
-          : { info: "No readable files found in directory." };
+        if (!Object.keys(files).length && !binary.length)
+          return { info: "No readable files found in directory." };
+        return {
+          files,
+          ...(binary.length ? { skippedBinary: binary } : {}),
+          ...(unread || walk.omitted || walk.incomplete
+            ? {
+                truncated: [
+                  unread && `${unread} file(s) not read: maxBytes reached`,
+                  walk.incomplete
+                    ? "more files left out by maxDepth, maxFiles or globs"
+                    : walk.omitted &&
+                      `${walk.omitted} file(s) left out by maxDepth, maxFiles or globs`,
+                ]
+                  .filter(Boolean)
+                  .join("; "),
+              }
+            : {}),
+        };
       } catch (err: any) {
         return {
           error: `Error reading files in directory '${dirPath}': ${err.message}`,
@@ -236,6 +641,211 @@ export class GftsServer {
     });
   }
 
+  /**
+   * Searches the text files under a directory, skipping what git ignores,
+   * and reports matches in grep's `path:line:text` format.
+   */
+  async searchFiles(
+    pattern: string,
+    options: SearchOptions = {}
+  ): Promise<string> {
+    const dirPath = options.path || ".";
+    return this.wrapWithTimeout(() => {
+      try {
+        const safePath = this.getSafePath(dirPath);
+        if (!this.isDirectory(safePath))
+          return `Error: Path is not a directory: '${dirPath}'`;
+
+        let regex: RegExp;
+        try {
+          regex = compilePattern(pattern, options);
+        } catch (err: any) {
+          return `Error: Invalid regular expression '${pattern}': ${err.message}`;
+        }
+        const context = Math.min(
+          Math.max(options.context ?? SEARCH_DEFAULTS.context, 0),
+          SEARCH_DEFAULTS.maxContext
+        );
+        const maxResults = options.maxResults ?? SEARCH_DEFAULTS.maxResults;
+
+        const { files } = this.walk(safePath, {
+          include: options.include,
+          exclude: options.exclude,
+          maxDepth: Infinity,
+          maxFiles: SEARCH_DEFAULTS.maxFiles,
+        });
+        const output: string[] = [];
+        let matches = 0;
+        for (const file of files) {
+          if (matches >= maxResults) break;
+          const filePath = path.join(safePath, file);
+          if (this.isBinary(filePath)) continue;
+          const content = this.fileContent(filePath);
+          if (content === null) continue;
+
+          const rel = path
+            .relative(this.workingDirectory, filePath)
+            .split(path.sep)
+            .join("/");
+          const found = matchLines(
+            rel,
+            content,
+            regex,
+            context,
+            maxResults - matches
+          );
+          if (!found.matches) continue;
+          if (output.length && context) output.push("--");
+          output.push(...found.lines);
+          matches += found.matches;
+        }
+
+        if (!matches)
+          return `No matches for ${regex} in ${files.length} file(s).`;
+        if (matches >= maxResults) {
+          output.push(
+            `[... stopped after ${maxResults} matches; narrow the pattern or the globs]`
+          );
+        } else if (files.length === SEARCH_DEFAULTS.maxFiles) {
+          output.push(
+            `[... only the first ${SEARCH_DEFAULTS.maxFiles} files were searched; narrow the path or the globs]`
+          );
+        }
+        return output.join("\n");
+      } catch (err: any) {
+        return `Error searching '${dirPath}': ${err.message}`;
+      }
+    });
+  }
+
+  /**
+   * Returns lines `startLine`-`endLine` (1-based, inclusive) of a file with
+   * their numbers, at most MAX_RANGE_LINES at a time.
+   */
+  async readFileRange(
+    filePath: string,
+    startLine: number,
+    endLine?: number
+  ): Promise<string> {
+    return this.wrapWithTimeout(() => {
+      try {
+        const content = this.fileContent(this.getSafePath(filePath));
+        if (content === null)
+          return `Error: Path is not a file or does not exist: '${filePath}'`;
+        if (content.includes("\0"))
+          return `Error: '${filePath}' is a binary file`;
+
+        const lines = content.split("\n");
+        if (lines[lines.length - 1] === "") lines.pop();
+        if (!Number.isInteger(startLine) || startLine < 1)
+          return `Error: startLine must be a positive integer, got ${startLine}`;
+        if (startLine > lines.length)
+          return `Error: '${filePath}' has only ${lines.length} lines`;
+        if (endLine !== undefined && endLine < startLine)
+          return `Error: endLine ${endLine} is before startLine ${startLine}`;
+
+        const last = Math.min(
+          endLine ?? Infinity,
+          startLine + GftsServer.MAX_RANGE_LINES - 1,
+          lines.length
+        );
+        const width = String(last).length;
+        const output = [
+          `${filePath}: lines ${startLine}-${last} of ${lines.length}`,
+          ...lines
+            .slice(startLine - 1, last)
+            .map(
+              (line, i) => `${String(startLine + i).padStart(width)}  ${line}`
+            ),
+        ];
+        if (last < lines.length && (endLine ?? Infinity) > last) {
+          output.push(
+            `[... more lines follow; continue from line ${last + 1}]`
+          );
+        }
+        return output.join("\n");
+      } catch (err: any) {
+        return `Error reading file '${filePath}': ${err.message}`;
+      }
+    });
+  }
+
+  /**
+   * Applies a unified diff. Every hunk is checked before anything is
+   * written, so the patch applies completely or not at all.
+   */
+  async applyPatch(patch: string): Promise<string> {
+    const changes = new Map<string, FileChange>();
+    try {
+      for (const file of parseUnifiedDiff(patch)) {
+        const target = (file.newPath ?? file.oldPath)!;
+        const pending = changes.get(target);
+        const before = pending
+          ? pending.after
+          : this.fileContent(this.getSafePath(target));
+        changes.set(target, {
+          path: target,
+          before: pending ? pending.before : before,
+          after: applyFilePatch(before, file),
+        });
+      }
+    } catch (err: any) {
+      return `Error applying patch, nothing was changed: ${err.message}`;
+    }
+    return this.writeChanges([...changes.values()]);
+  }
+
+  /** Applies search/replace edits to one file, all or nothing. */
+  async replaceInFile(
+    filePath: string,
+    edits: SearchReplaceEdit[]
+  ): Promise<string> {
+    let after: string;
+    let before: string | null;
+    try {
+      before = this.fileContent(this.getSafePath(filePath));
+      if (before === null)
+        return `Error: Path is not a file or does not exist: '${filePath}'`;
+      after = applyEdits(before, edits, filePath);
+    } catch (err: any) {
+      return `Error editing '${filePath}', nothing was changed: ${err.message}`;
+    }
+    return this.writeChanges([{ path: filePath, before, after }]);
+  }
+
+  /**
+   * Writes verified changes and returns what happened with the diff. If a
+   * write fails, the files already written get their old content back.
+   */
+  private async writeChanges(changes: FileChange[]): Promise<string> {
+    const put = (file: string, content: string | null) =>
+      content === null ? this.deleteFile(file) : this.writeFile(file, content);
+
+    const results: string[] = [];
+    for (const [i, change] of changes.entries()) {
+      const result = await put(change.path, change.after);
+      results.push(result);
+      if (!result.startsWith("Error")) continue;
+
+      const failed = [];
+      for (const done of changes.slice(0, i).reverse()) {
+        const undo = await put(done.path, done.before);
+        if (undo.startsWith("Error")) failed.push(undo);
+      }
+      return failed.length
+        ? [
+            result,
+            "Restoring the files already written failed:",
+            ...failed,
+          ].join("\n")
+        : `${result}\nNothing was changed; the files already written were restored.`;
+    }
+    const diff = changes
+      .map((c) => unifiedDiff(c.path, c.before, c.after))
+      .join("");
+    return [...results, truncateText(diff, MAX_PATCH_ECHO_BYTES)].join("\n");
+  }
+
   getCurrentDirectory(): string {
     return this.workingDirectory;
   }
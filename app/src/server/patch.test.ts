@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GftsServer } from "./index";
+import {
+  applyEdits,
+  applyFilePatch,
+  parseUnifiedDiff,
+  type FilePatch,
+} from "./patch";
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+/** Parses a patch that touches a single file. */
+const single = (patch: string): FilePatch => {
+  const files = parseUnifiedDiff(patch);
+  expect(files).toHaveLength(1);
+  return files[0]!;
+};
+
+describe("parseUnifiedDiff", () => {
+  test("reads files and hunks, ignoring git's extended headers", () => {
+    const files = parseUnifiedDiff(
+      [
+        "diff --git a/a.txt b/a.txt",
+        "index 1111111..2222222 100644",
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,2 +1,2 @@",
+        " keep",
+        "-old",
+        "+new",
+        "--- /dev/null",
+        "+++ b/b.txt",
+        "@@ -0,0 +1 @@",
+        "+created",
+      ].join("\n")
+    );
+    expect(files.map((f) => [f.oldPath, f.newPath])).toEqual([
+      ["a.txt", "a.txt"],
+      [null, "b.txt"],
+    ]);
+    expect(files[0]!.hunks[0]!.lines).toEqual([
+      { type: " ", text: "keep" },
+      { type: "-", text: "old" },
+      { type: "+", text: "new" },
+    ]);
+  });
+
+  test("treats blank lines inside a hunk as context but not trailing ones", () => {
+    const file = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n\n\n"
+    );
+    expect(file.hunks[0]!.lines.map((l) => l.type)).toEqual([
+      " ",
+      " ",
+      "-",
+      "+",
+    ]);
+  });
+
+  test("rejects patches without file headers or with empty hunks", () => {
+    expect(() => parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b")).toThrow(
+      "hunk without a preceding ---/+++ file header"
+    );
+    expect(() => parseUnifiedDiff("just some text")).toThrow(
+      "No file headers found"
+    );
+    expect(() =>
+      parseUnifiedDiff("--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n a")
+    ).toThrow("changes nothing");
+  });
+});
+
+describe("applyFilePatch", () => {
+  test("finds a hunk whose header line number is off", () => {
+    const file = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -2,3 +2,3 @@\n line 7\n-line 8\n+eight\n line 9\n"
+    );
+    expect(applyFilePatch(lines(12), file)).toBe(
+      lines(12).replace("line 8\n", "eight\n")
+    );
+  });
+
+  test("finds a hunk whose header points past the end of the file", () => {
+    const file = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -40,2 +40,2 @@\n line 2\n-line 3\n+three\n"
+    );
+    expect(applyFilePatch(lines(3), file)).toBe("line 1\nline 2\nthree\n");
+  });
+
+  test("inserts after the start line of an empty old range", () => {
+    const file = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -2,0 +3,2 @@\n+new a\n+new b\n"
+    );
+    expect(applyFilePatch(lines(3), file)).toBe(
+      "line 1\nline 2\nnew a\nnew b\nline 3\n"
+    );
+  });
+
+  test("inserts at the top for a -0,0 range", () => {
+    const file = single("--- a/a.txt\n+++ b/a.txt\n@@ -0,0 +1 @@\n+first\n");
+    expect(applyFilePatch(lines(2), file)).toBe("first\nline 1\nline 2\n");
+  });
+
+  test("honours '\\ No newline at end of file' on either side", () => {
+    const addNewline = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-last\n\\ No newline at end of file\n+last\n"
+    );
+    expect(applyFilePatch("last", addNewline)).toBe("last\n");
+
+    const dropNewline = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-last\n+last\n\\ No newline at end of file\n"
+    );
+    expect(applyFilePatch("last\n", dropNewline)).toBe("last");
+  });
+
+  test("creates and deletes files", () => {
+    const create = single(
+      "--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+    );
+    expect(applyFilePatch(null, create)).toBe("a\nb\n");
+    expect(() => applyFilePatch("x\n", create)).toThrow(
+      "new.txt already exists"
+    );
+
+    const remove = single(
+      "--- a/old.txt\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-a\n-b\n"
+    );
+    expect(applyFilePatch("a\nb\n", remove)).toBeNull();
+    expect(() => applyFilePatch("a\nb\nc\n", remove)).toThrow(
+      "1 line(s) would remain"
+    );
+    expect(() => applyFilePatch(null, remove)).toThrow(
+      "old.txt does not exist"
+    );
+  });
+
+  test("rejects renames", () => {
+    const rename = single(
+      "--- a/old.txt\n+++ b/new.txt\n@@ -1 +1 @@\n-a\n+b\n"
+    );
+    expect(() => applyFilePatch("a\n", rename)).toThrow(
+      "renames are not supported"
+    );
+  });
+
+  test("explains mismatches", () => {
+    const file = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n  line 1\n-line 2\n+two\n"
+    );
+    expect(() => applyFilePatch(lines(3), file)).toThrow(
+      "only when whitespace is ignored"
+    );
+    const missing = single(
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n line 1\n-line two\n+two\n"
+    );
+    expect(() => applyFilePatch(lines(3), missing)).toThrow(
+      `line 2 is "line 2", the patch expects "line two"`
+    );
+  });
+});
+
+describe("applyEdits", () => {
+  test("applies edits in order", () => {
+    expect(
+      applyEdits(
+        "a b c\n",
+        [
+          { search: "a", replace: "x" },
+          { search: "x b", replace: "y" },
+        ],
+        "f.txt"
+      )
+    ).toBe("y c\n");
+  });
+
+  test("refuses search text that is not unique unless replaceAll", () => {
+    expect(() =>
+      applyEdits("a a\n", [{ search: "a", replace: "b" }], "f.txt")
+    ).toThrow("search text occurs 2 times in f.txt");
+    expect(
+      applyEdits(
+        "a a\n",
+        [{ search: "a", replace: "b", replaceAll: true }],
+        "f.txt"
+      )
+    ).toBe("b b\n");
+  });
+
+  test("points at near misses", () => {
+    expect(() =>
+      applyEdits(
+        "  if (x) {\n",
+        [{ search: "if (x)  {", replace: "" }],
+        "f.txt"
+      )
+    ).toThrow("matches line 1 only when whitespace is ignored");
+    expect(() =>
+      applyEdits("one\ntwo\n", [{ search: "one\nthree", replace: "" }], "f.txt")
+    ).toThrow("its first line appears at line 1");
+  });
+
+  test("rejects empty search text", () => {
+    expect(() =>
+      applyEdits("a\n", [{ search: "", replace: "b" }], "f.txt")
+    ).toThrow("empty search text");
+  });
+});
+
+describe("GftsServer.applyPatch", () => {
+  let root: string;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-patch-"));
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("restores files already written when a later write fails", async () => {
+    fs.writeFileSync(path.join(root, "a.txt"), "a\n");
+    fs.writeFileSync(path.join(root, "blocker"), "a file, not a directory\n");
+    const result = await new GftsServer(root).applyPatch(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1 +1 @@",
+        "-a",
+        "+changed",
+        "--- /dev/null",
+        "+++ b/blocker/new.txt",
+        "@@ -0,0 +1 @@",
+        "+new",
+      ].join("\n")
+    );
+    expect(result).toStartWith("Error");
+    expect(result).toContain("Nothing was changed");
+    expect(fs.readFileSync(path.join(root, "a.txt"), "utf-8")).toBe("a\n");
+  });
+});
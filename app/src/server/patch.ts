@@ -0,0 +1,331 @@
+export interface SearchReplaceEdit {
+  /** Text that must occur in the file exactly, whitespace included. */
+  search: string;
+  replace: string;
+  /** Replace every occurrence instead of requiring a unique one. */
+  replaceAll?: boolean;
+}
+
+interface HunkLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+export interface PatchHunk {
+  /** The `@@ ... @@` line, for error messages. */
+  header: string;
+  /** 1-based start of the old range; only a hint for where to apply. */
+  oldStart: number;
+  lines: HunkLine[];
+  /** "\ No newline at end of file" followed the last old / new line. */
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface FilePatch {
+  /** null for a file the patch creates. */
+  oldPath: string | null;
+  /** null for a file the patch deletes. */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+function parsePath(raw: string): string | null {
+  const name = raw.split("\t")[0]!.trim();
+  if (name === "/dev/null") return null;
+  return name.replace(/^[ab]\//, "");
+}
+
+const isFileHeader = (lines: string[], i: number) =>
+  lines[i]!.startsWith("--- ") && !!lines[i + 1]?.startsWith("+++ ");
+
+/**
+ * Parses a unified diff as produced by `git diff` or `diff -u`. Line counts
+ * in the `@@` headers are not trusted, since models rarely get them right;
+ * a hunk runs until the next header or a line that cannot belong to it.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, "\n").replace(/\n+$/, "").split("\n");
+  const files: FilePatch[] = [];
+  let file: FilePatch | null = null;
+
+  for (let i = 0; i < lines.length; ) {
+    if (isFileHeader(lines, i)) {
+      file = {
+        oldPath: parsePath(lines[i]!.slice(4)),
+        newPath: parsePath(lines[i + 1]!.slice(4)),
+        hunks: [],
+      };
+      if (!file.oldPath && !file.newPath) {
+        throw new Error(`Patch line ${i + 1}: both sides are /dev/null`);
+      }
+      files.push(file);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(lines[i]!);
+    if (!header) {
+      // diff --git, index, mode and other extended headers.
+      i++;
+      continue;
+    }
+    if (!file) {
+      throw new Error(
+        `Patch line ${i + 1}: hunk without a preceding ---/+++ file header`
+      );
+    }
+
+    const hunk: PatchHunk = {
+      header: lines[i]!,
+      oldStart: Number(header[1]),
+      lines: [],
+      oldNoNewline: false,
+      newNoNewline: false,
+    };
+    // Trailing blank lines usually separate file sections, not context.
+    let blanks = 0;
+    for (i++; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (HUNK_HEADER.test(line) || isFileHeader(lines, i)) break;
+      if (line.startsWith("\\")) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last?.type !== "+") hunk.oldNoNewline = true;
+        if (last?.type !== "-") hunk.newNoNewline = true;
+        continue;
+      }
+      // Editors and models often strip the space from blank context lines.
+      if (line === "") {
+        hunk.lines.push({ type: " ", text: "" });
+        blanks++;
+        continue;
+      }
+      const type = line[0];
+      if (type !== " " && type !== "-" && type !== "+") break;
+      hunk.lines.push({ type, text: line.slice(1) });
+      blanks = 0;
+    }
+    hunk.lines.splice(hunk.lines.length - blanks);
+    if (!hunk.lines.some((l) => l.type !== " ")) {
+      throw new Error(`${hunk.header} in ${file.newPath} changes nothing`);
+    }
+    file.hunks.push(hunk);
+  }
+
+  if (!files.length) {
+    throw new Error(
+      "No file headers found; a unified diff needs '--- a/path' and '+++ b/path' lines"
+    );
+  }
+  return files;
+}
+
+/** Files a patch names, for policy checks and journaling. Never throws. */
+export function patchTargets(
+  patch: string
+): { path: string; deleted: boolean }[] {
+  try {
+    return parseUnifiedDiff(patch).map((file) => ({
+      path: (file.newPath ?? file.oldPath)!,
+      deleted: !file.newPath,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function splitContent(content: string) {
+  const lines = content.split("\n");
+  const trailingNewline = lines[lines.length - 1] === "";
+  if (trailingNewline) lines.pop();
+  return { lines, trailingNewline: trailingNewline || !content };
+}
+
+function sameLines(
+  lines: string[],
+  at: number,
+  expected: string[],
+  normalize = (s: string) => s
+): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  return expected.every(
+    (line, k) => normalize(lines[at + k]!) === normalize(line)
+  );
+}
+
+const squash = (s: string) => s.trim().replace(/\s+/g, " ");
+
+/** Where a hunk's old lines occur, nearest to `expected` first. */
+function locate(
+  lines: string[],
+  old: string[],
+  expected: number,
+  from: number
+): number {
+  const reach = Math.max(expected, lines.length - expected);
+  for (let delta = 0; delta <= reach; delta++) {
+    for (const at of delta
+      ? [expected + delta, expected - delta]
+      : [expected]) {
+      if (at >= from && sameLines(lines, at, old)) return at;
+    }
+  }
+  return -1;
+}
+
+/** Explains why `old` does not match, for the model to correct its patch. */
+function mismatch(
+  lines: string[],
+  old: string[],
+  expected: number,
+  from: number
+): string {
+  for (let at = from; at + old.length <= lines.length; at++) {
+    if (sameLines(lines, at, old, squash)) {
+      return `the lines match at line ${
+        at + 1
+      } only when whitespace is ignored; copy them exactly`;
+    }
+  }
+  const at = Math.min(Math.max(expected, 0), lines.length);
+  const k = old.findIndex((line, j) => lines[at + j] !== line);
+  if (at + k >= lines.length) {
+    return `expected ${JSON.stringify(old[k])} at line ${
+      at + k + 1
+    }, past the end of the file (${lines.length} lines)`;
+  }
+  return `line ${at + k + 1} is ${JSON.stringify(
+    lines[at + k]
+  )}, the patch expects ${JSON.stringify(old[k])}`;
+}
+
+/**
+ * Applies one file's hunks to its current content (null when the file does
+ * not exist). Every context and removed line must match exactly, though a
+ * hunk may sit at a different line than its header says. Returns the new
+ * content, or null when the patch deletes the file.
+ */
+export function applyFilePatch(
+  content: string | null,
+  file: FilePatch
+): string | null {
+  const name = (file.newPath ?? file.oldPath)!;
+  if (file.oldPath && file.newPath && file.oldPath !== file.newPath) {
+    throw new Error(
+      `${file.oldPath} -> ${file.newPath}: renames are not supported; use move_file, then patch`
+    );
+  }
+  if (!file.oldPath && content !== null) {
+    throw new Error(`${name} already exists; patch it instead of creating it`);
+  }
+  if (file.oldPath && content === null) {
+    throw new Error(`${name} does not exist`);
+  }
+
+  const { lines, trailingNewline } = splitContent(content ?? "");
+  let eol = trailingNewline;
+  let offset = 0;
+  let from = 0;
+
+  file.hunks.forEach((hunk, n) => {
+    const old = hunk.lines.filter((l) => l.type !== "+").map((l) => l.text);
+    const added = hunk.lines.filter((l) => l.type !== "-").map((l) => l.text);
+    // An empty old range ("-5,0") inserts after its start line.
+    const expected = (old.length ? hunk.oldStart - 1 : hunk.oldStart) + offset;
+
+    const at = old.length
+      ? locate(lines, old, expected, from)
+      : Math.min(Math.max(expected, from), lines.length);
+    if (at === -1) {
+      throw new Error(
+        `Hunk ${n + 1} (${hunk.header}) does not apply to ${name}: ${mismatch(
+          lines,
+          old,
+          expected,
+          from
+        )}`
+      );
+    }
+
+    const reachesEnd = at + old.length === lines.length;
+    lines.splice(at, old.length, ...added);
+    offset += at - expected + added.length - old.length;
+    from = at + added.length;
+    if (reachesEnd) eol = !hunk.newNoNewline;
+  });
+
+  if (!file.newPath) {
+    if (lines.length) {
+      throw new Error(
+        `${name}: the patch deletes the file but ${lines.length} line(s) would remain`
+      );
+    }
+    return null;
+  }
+  return lines.length ? lines.join("\n") + (eol ? "\n" : "") : "";
+}
+
+/**
+ * Applies search/replace edits in order. Each search text must occur
+ * exactly once (or at least once with `replaceAll`), otherwise nothing is
+ * changed and the error says what to fix.
+ */
+export function applyEdits(
+  content: string,
+  edits: SearchReplaceEdit[],
+  filePath: string
+): string {
+  if (!edits.length) throw new Error("No edits given");
+
+  return edits.reduce((text, edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1}` : "The edit";
+    if (!edit.search) {
+      throw new Error(
+        `${label} has an empty search text; use write_file to create a file`
+      );
+    }
+
+    const matches = text.split(edit.search).length - 1;
+    if (!matches) {
+      throw new Error(
+        `${label}: search text not found in ${filePath}; ${searchHint(
+          text,
+          edit.search
+        )}`
+      );
+    }
+    if (matches > 1 && !edit.replaceAll) {
+      throw new Error(
+        `${label}: search text occurs ${matches} times in ${filePath}; include more surrounding lines to make it unique, or set replaceAll`
+      );
+    }
+    if (edit.replaceAll) return text.split(edit.search).join(edit.replace);
+    const at = text.indexOf(edit.search);
+    return (
+      text.slice(0, at) + edit.replace + text.slice(at + edit.search.length)
+    );
+  }, content);
+}
+
+function searchHint(content: string, search: string): string {
+  const lines = content.split("\n");
+  const wanted = search.replace(/\n$/, "").split("\n");
+  for (let at = 0; at + wanted.length <= lines.length; at++) {
+    if (sameLines(lines, at, wanted, squash)) {
+      return `it matches line ${
+        at + 1
+      } only when whitespace is ignored; copy the text exactly`;
+    }
+  }
+  const first = wanted.find((line) => line.trim());
+  const at = first
+    ? lines.findIndex((line) => squash(line) === squash(first))
+    : -1;
+  return at === -1
+    ? "read the file again and copy the text exactly"
+    : `its first line appears at line ${
+        at + 1
+      } but the lines after it differ; read the file again`;
+}
@@ -0,0 +1,70 @@
+import type { WalkOptions } from "./walk";
+
+export interface SearchOptions
+  extends Pick<WalkOptions, "include" | "exclude"> {
+  /** Directory to search, relative to the project root. */
+  path?: string;
+  /** Treat the pattern as plain text rather than a regular expression. */
+  literal?: boolean;
+  ignoreCase?: boolean;
+  /** Lines shown before and after each match. */
+  context?: number;
+  maxResults?: number;
+}
+
+export const SEARCH_DEFAULTS = {
+  context: 0,
+  maxContext: 10,
+  maxResults: 100,
+  /** Files considered at all; searching stops with a marker beyond this. */
+  maxFiles: 5000,
+  /** Longer lines are clipped in the output. */
+  maxLineLength: 300,
+};
+
+export function compilePattern(pattern: string, options: SearchOptions) {
+  const source = options.literal
+    ? pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    : pattern;
+  return new RegExp(source, options.ignoreCase ? "i" : "");
+}
+
+const clipLine = (line: string) =>
+  line.length > SEARCH_DEFAULTS.maxLineLength
+    ? `${line.slice(0, SEARCH_DEFAULTS.maxLineLength)}...`
+    : line;
+
+/**
+ * Matches in one file in grep's format: `path:line:text` for matches,
+ * `path-line-text` for context and `--` between separate groups. Stops after
+ * `limit` matches.
+ */
+export function matchLines(
+  file: string,
+  content: string,
+  regex: RegExp,
+  context: number,
+  limit: number
+): { lines: string[]; matches: number } {
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const hits: number[] = [];
+  for (let i = 0; i < lines.length && hits.length < limit; i++) {
+    if (regex.test(lines[i]!)) hits.push(i);
+  }
+
+  const output: string[] = [];
+  let shownUntil = -1;
+  for (const hit of hits) {
+    const start = Math.max(hit - context, shownUntil + 1);
+    if (context && output.length && start > shownUntil + 1) output.push("--");
+    const end = Math.min(hit + context, lines.length - 1);
+    for (let i = start; i <= end; i++) {
+      const sep = hits.includes(i) ? ":" : "-";
+      output.push(`${file}${sep}${i + 1}${sep}${clipLine(lines[i]!)}`);
+    }
+    shownUntil = Math.max(shownUntil, end);
+  }
+  return { lines: output, matches: hits.length };
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { walkFiles } from "./walk";
+
+let root: string;
+
+const write = (file: string) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), "x\n");
+};
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-walk-"));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("walkFiles outside a repository", () => {
+  test("lists every file when the limits are not reached", () => {
+    ["b.txt", "a/one.ts", "a/two.md", "node_modules/x/index.js"].forEach(write);
+    expect(walkFiles(root)).toEqual({
+      files: ["a/one.ts", "a/two.md", "b.txt"],
+      omitted: 0,
+    });
+  });
+
+  test("does not descend below maxDepth", () => {
+    ["top.txt", "a/mid.txt", "a/b/deep.txt"].forEach(write);
+    expect(walkFiles(root, { maxDepth: 2 })).toEqual({
+      files: ["a/mid.txt", "top.txt"],
+      omitted: 0,
+      incomplete: true,
+    });
+  });
+
+  test("stops once more than maxFiles files match", () => {
+    for (let i = 0; i < 20; i++) write(`d${i}/f.txt`);
+    const result = walkFiles(root, { maxFiles: 3 });
+    expect(result.files).toEqual(["d0/f.txt", "d1/f.txt", "d10/f.txt"]);
+    expect(result.incomplete).toBe(true);
+    expect(result.omitted).toBeLessThan(17);
+  });
+
+  test("counts only files that pass the globs towards maxFiles", () => {
+    ["a.md", "b.ts", "c.ts", "d.md", "e.md"].forEach(write);
+    expect(walkFiles(root, { include: ["*.md"], maxFiles: 2 })).toEqual({
+      files: ["a.md", "d.md"],
+      omitted: 3,
+      incomplete: true,
+    });
+  });
+});
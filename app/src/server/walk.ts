@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import { runGit } from "./git";
+
+export interface WalkOptions {
+  /** Levels below the starting directory to descend; 1 = direct children. */
+  maxDepth?: number;
+  /** Files to list or read before stopping with a truncation marker. */
+  maxFiles?: number;
+  /** Bytes of output (tree text or file contents) before truncating. */
+  maxBytes?: number;
+  /** Globs relative to the starting directory; a file must match one. */
+  include?: string[];
+  /** Globs relative to the starting directory; matching files are skipped. */
+  exclude?: string[];
+}
+
+export const WALK_DEFAULTS = {
+  maxDepth: 8,
+  maxFiles: 500,
+  maxBytes: 256 * 1024,
+} satisfies WalkOptions;
+
+/** Skipped outside git repositories, where there is no .gitignore to ask. */
+const FALLBACK_SKIP = new Set([".git", "node_modules"]);
+/** Bytes sniffed for NUL to tell binary files apart, as git does. */
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface WalkResult {
+  /** Paths relative to the starting directory, "/"-separated and sorted. */
+  files: string[];
+  /** Files left out by maxDepth, maxFiles, include or exclude. */
+  omitted: number;
+  /**
+   * The walk stopped at maxDepth or maxFiles without looking further, so
+   * more files may exist than `omitted` counts. Only outside a repository.
+   */
+  incomplete?: boolean;
+  /** Why the directory lists nothing, when it is ignored by git. */
+  ignored?: boolean;
+}
+
+export interface TreeNode {
+  files: string[];
+  dirs: Map<string, TreeNode>;
+  /** Files in this directory and below. */
+  total: number;
+}
+
+export function isBinaryFile(absPath: string): boolean {
+  const fd = fs.openSync(absPath, "r");
+  try {
+    const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const read = fs.readSync(fd, buffer, 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, read).includes(0);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+const matchesAny = (file: string, globs?: string[]) =>
+  globs?.some((glob) => path.matchesGlob(file, glob));
+
+/** Whether a relative path passes the depth limit and the globs. */
+function selected(file: string, options: WalkOptions): boolean {
+  return (
+    file.split("/").length <= (options.maxDepth ?? WALK_DEFAULTS.maxDepth) &&
+    (!options.include?.length || !!matchesAny(file, options.include)) &&
+    !matchesAny(file, options.exclude)
+  );
+}
+
+/**
+ * Applies depth, globs and maxFiles to relative paths, sorted. Shared by
+ * the walks and by the dry-run server, which adds simulated files.
+ */
+export function selectFiles(
+  all: string[],
+  options: WalkOptions = {}
+): WalkResult {
+  const maxFiles = options.maxFiles ?? WALK_DEFAULTS.maxFiles;
+  const eligible = all.filter((file) => selected(file, options)).sort();
+  return {
+    files: eligible.slice(0, maxFiles),
+    omitted: all.length - Math.min(eligible.length, maxFiles),
+  };
+}
+
+/**
+ * Walks directories no deeper than maxDepth, in name order, and stops
+ * looking once one more file than maxFiles has been selected, so a large
+ * tree such as $HOME is never read in full.
+ */
+function walkFilesystem(root: string, options: WalkOptions): WalkResult {
+  const maxDepth = options.maxDepth ?? WALK_DEFAULTS.maxDepth;
+  const maxFiles = options.maxFiles ?? WALK_DEFAULTS.maxFiles;
+  const seen: string[] = [];
+  let kept = 0;
+  let incomplete = false;
+
+  const visit = (dir: string, rel: string, depth: number) => {
+    const entries = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : 1));
+    for (const entry of entries) {
+      if (kept > maxFiles) return;
+      if (FALLBACK_SKIP.has(entry.name)) continue;
+      const relPath = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (depth < maxDepth) {
+          visit(path.join(dir, entry.name), relPath, depth + 1);
+        } else {
+          incomplete = true;
+        }
+      } else if (entry.isFile()) {
+        seen.push(relPath);
+        if (selected(relPath, options)) kept++;
+      }
+    }
+  };
+  visit(root, "", 1);
+
+  const result = selectFiles(seen, options);
+  return incomplete || kept > maxFiles
+    ? { ...result, incomplete: true }
+    : result;
+}
+
+/**
+ * Files under `root` that git does not ignore (.gitignore, .git/info/exclude
+ * and the global excludes file), or every file but .git and node_modules
+ * outside a repository. Depth, globs and maxFiles are applied here.
+ */
+export function walkFiles(root: string, options: WalkOptions = {}): WalkResult {
+  const inRepo =
+    runGit(["rev-parse", "--is-inside-work-tree"], { cwd: root }).stdout ===
+    "true";
+  if (!inRepo) return walkFilesystem(root, options);
+
+  const listed = runGit(
+    ["ls-files", "-z", "--cached", "--others", "--exclude-standard"],
+    { cwd: root }
+  );
+  // Tracked files deleted from the worktree are still in the index.
+  const all = [...new Set(listed.stdout.split("\0").filter(Boolean))].filter(
+    (file) => fs.existsSync(path.join(root, file))
+  );
+  const ignored =
+    !all.length &&
+    runGit(["check-ignore", "-q", "--", "."], { cwd: root }).return_code === 0;
+
+  return { ...selectFiles(all, options), ...(ignored ? { ignored } : {}) };
+}
+
+export function buildTree(files: string[]): TreeNode {
+  const root: TreeNode = { files: [], dirs: new Map(), total: 0 };
+  for (const file of files) {
+    const parts = file.split("/");
+    let node = root;
+    node.total++;
+    for (const dir of parts.slice(0, -1)) {
+      let child = node.dirs.get(dir);
+      if (!child) {
+        child = { files: [], dirs: new Map(), total: 0 };
+        node.dirs.set(dir, child);
+      }
+      child.total++;
+      node = child;
+    }
+    node.files.push(parts[parts.length - 1]!);
+  }
+  return root;
+}
+
+/**
+ * Renders a tree with directories first, collapsing those below `depth` to
+ * a file count.
+ */
+export function renderTree(
+  node: TreeNode,
+  depth: number,
+  indent = ""
+): string[] {
+  const lines: string[] = [];
+  for (const [name, child] of [...node.dirs].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (depth <= 1) {
+      lines.push(`${indent}${name}/ (${child.total} files)`);
+    } else {
+      lines.push(`${indent}${name}/`);
+      lines.push(...renderTree(child, depth - 1, indent + "  "));
+    }
+  }
+  for (const file of [...node.files].sort()) lines.push(`${indent}${file}`);
+  return lines;
+}
+
+/** Cuts text to `maxBytes` on a line boundary, with a marker saying so. */
+export function truncateText(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text) <= maxBytes) return text;
+  const lines = text.split("\n");
+  let size = 0;
+  let kept = 0;
+  for (const line of lines) {
+    size += Buffer.byteLength(line) + 1;
+    if (size > maxBytes) break;
+    kept++;
+  }
+  return [
+    ...lines.slice(0, kept),
+    `[... truncated: ${
+      lines.length - kept
+    } more lines over the ${maxBytes}-byte limit]`,
+  ].join("\n");
+}
+
+/**
+ * Reads at most `maxBytes` of a text file, cut at a line boundary, with a
+ * marker when the rest is left out.
+ */
+export function readTextHead(absPath: string, maxBytes: number): string {
+  const size = fs.statSync(absPath).size;
+  if (size <= maxBytes) return fs.readFileSync(absPath, "utf-8");
+
+  const buffer = Buffer.alloc(maxBytes);
+  const fd = fs.openSync(absPath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, maxBytes, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return cutAtLine(buffer, size);
+}
+
+/** readTextHead for text already in memory. */
+export function textHead(text: string, maxBytes: number): string {
+  const buffer = Buffer.from(text);
+  return buffer.length <= maxBytes
+    ? text
+    : cutAtLine(buffer.subarray(0, maxBytes), buffer.length);
+}
+
+/** Cuts the first bytes of a `size`-byte text at their last newline. */
+function cutAtLine(head: Buffer, size: number): string {
+  const newline = head.lastIndexOf(10);
+  const kept = newline === -1 ? 0 : newline + 1;
+  return `${head.subarray(0, kept).toString("utf-8")}[... truncated: ${
+    size - kept
+  } more bytes over the limit]`;
+}
@@ -1,134 +1,381 @@
-// Tool declarations for Gemini AI internal use
-const toolDeclarations = [
-  {
+import { z } from "zod";
+import type { GftsServer, ToolResult } from "../server";
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+/**
+ * A built-in tool: its arguments as a zod schema and the GftsServer call
+ * that serves it. The JSON Schema sent to the model and the dispatch in
+ * runTool are both derived from this, so neither can drift from the other.
+ */
+export interface ToolDefinition<S extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  run(server: GftsServer, args: z.output<S>): Promise<ToolResult> | ToolResult;
+}
+
+function defineTool<S extends z.ZodObject>(
+  tool: ToolDefinition<S>
+): ToolDefinition {
+  return tool as ToolDefinition;
+}
+
+const pathArg = z.string().describe("Path relative to the project root.");
+const count = () => z.number().int().positive();
+
+/** Limits shared by the directory-walking tools. */
+const walkShape = {
+  maxDepth: count()
+    .optional()
+    .describe("Directory levels to descend. Defaults to 8."),
+  maxFiles: count()
+    .optional()
+    .describe("Maximum number of files. Defaults to 500."),
+  maxBytes: count()
+    .optional()
+    .describe("Maximum bytes of output. Defaults to 262144."),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe("Globs relative to the directory, e.g. ['src/**/*.ts']."),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe("Globs relative to the directory to leave out."),
+};
+
+// Tool definitions for Gemini AI internal use
+const tools: ToolDefinition[] = [
+  defineTool({
+    name: "git_status",
+    description:
+      "Returns the current branch, upstream, ahead/behind counts and every changed, staged, untracked or conflicted path.",
+    schema: z.object({}),
+    run: (server) => server.gitStatus(),
+  }),
+  defineTool({
+    name: "git_diff",
+    description:
+      "Returns per-file line stats and the unified diff of unstaged changes, staged changes, or against a ref.",
+    schema: z.object({
+      staged: z
+        .boolean()
+        .optional()
+        .describe("Diff the index against HEAD instead of the worktree."),
+      ref: z
+        .string()
+        .optional()
+        .describe("Commit, branch or range to diff against."),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe("Limit the diff to these paths."),
+    }),
+    run: (server, args) => server.gitDiff(args),
+  }),
+  defineTool({
+    name: "git_log",
+    description: "Returns recent commits with hash, author, date and message.",
+    schema: z.object({
+      maxCount: count().optional().describe("Defaults to 20."),
+      ref: z.string().optional().describe("Branch, tag or range to log."),
+      path: z.string().optional().describe("Only commits touching this path."),
+    }),
+    run: (server, args) => server.gitLog(args),
+  }),
+  defineTool({
+    name: "git_branch_list",
+    description:
+      "Lists local branches, marking the current one and its upstream.",
+    schema: z.object({}),
+    run: (server) => server.gitBranchList(),
+  }),
+  defineTool({
+    name: "git_branch_create",
+    description: "Creates a new branch, optionally switching to it.",
+    schema: z.object({
+      name: z.string().min(1),
+      startPoint: z
+        .string()
+        .optional()
+        .describe("Commit or branch to start from. Defaults to HEAD."),
+      checkout: z
+        .boolean()
+        .optional()
+        .describe("Switch to the new branch after creating it."),
+    }),
+    run: (server, { name, startPoint, checkout }) =>
+      server.gitBranchCreate(name, startPoint, checkout),
+  }),
+  defineTool({
+    name: "git_branch_switch",
+    description: "Switches the working tree to an existing branch.",
+    schema: z.object({ name: z.string().min(1) }),
+    run: (server, { name }) => server.gitBranchSwitch(name),
+  }),
+  defineTool({
+    name: "git_branch_delete",
+    description:
+      "Deletes a local branch. Without force, git refuses to delete unmerged branches.",
+    schema: z.object({
+      name: z.string().min(1),
+      force: z.boolean().optional(),
+    }),
+    run: (server, { name, force }) => server.gitBranchDelete(name, force),
+  }),
+  defineTool({
+    name: "git_stash",
+    description:
+      "Stashes changes (including untracked files), or lists, applies, pops or drops stashes.",
+    schema: z.object({
+      action: z.enum(["push", "pop", "apply", "list", "drop"]),
+      message: z.string().optional().describe("Message for 'push'."),
+      index: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Stash index for pop/apply/drop. Defaults to the latest."),
+    }),
+    run: (server, { action, ...options }) => server.gitStash(action, options),
+  }),
+  defineTool({
+    name: "git_tag",
+    description:
+      "Lists, creates or deletes tags. A message makes the created tag annotated.",
+    schema: z.object({
+      action: z.enum(["create", "list", "delete"]),
+      name: z.string().optional(),
+      message: z.string().optional(),
+      ref: z.string().optional().describe("Commit to tag. Defaults to HEAD."),
+    }),
+    run: (server, { action, ...options }) => server.gitTag(action, options),
+  }),
+  defineTool({
+    name: "git_add",
+    description: "Stages the given paths. Use ['.'] to stage everything.",
+    schema: z.object({ paths: z.array(z.string()).min(1) }),
+    run: (server, { paths }) => server.gitAdd(paths),
+  }),
+  defineTool({
+    name: "git_commit",
+    description: "Commits the staged changes with the given message.",
+    schema: z.object({
+      message: z
+        .string()
+        .min(1)
+        .describe(
+          "Full commit message; may contain a body after a blank line."
+        ),
+      amend: z.boolean().optional(),
+    }),
+    run: (server, { message, amend }) => server.gitCommit(message, amend),
+  }),
+  defineTool({
     name: "run_git_command",
     description:
-      "Executes a git command. Do not include 'git' in the command string.",
-    parameters: {
-      type: "object",
-      properties: {
-        command: { type: "string" },
-      },
-      required: ["command"],
-    },
-  },
-  {
+      "Executes any other git command (e.g. push, pull, fetch, merge, rebase). Prefer the dedicated git_* tools. Do not include 'git' in the command string; it is not run through a shell.",
+    schema: z.object({ command: z.string().min(1) }),
+    run: (server, { command }) => server.runGitCommand(command),
+  }),
+  defineTool({
     name: "list_files",
     description:
       "Lists files and directories in a specified path. Use '.' for the current directory.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({ path: pathArg }),
+    run: (server, args) => server.listFiles(args.path),
+  }),
+  defineTool({
     name: "read_file",
     description: "Reads and returns the content of a specified file.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({ path: pathArg }),
+    run: (server, args) => server.readFile(args.path),
+  }),
+  defineTool({
+    name: "read_file_range",
+    description:
+      "Returns a range of lines from a file, each prefixed with its line number. At most 500 lines per call.",
+    schema: z.object({
+      path: pathArg,
+      startLine: count().describe("First line, 1-based."),
+      endLine: count()
+        .optional()
+        .describe("Last line, inclusive. Defaults to startLine + 499."),
+    }),
+    run: (server, args) =>
+      server.readFileRange(args.path, args.startLine, args.endLine),
+  }),
+  defineTool({
+    name: "search_files",
+    description:
+      "Searches text files for a regular expression or literal string, skipping files ignored by .gitignore. Returns matches as path:line:text, with context lines as path-line-text.",
+    schema: z.object({
+      pattern: z
+        .string()
+        .min(1)
+        .describe("JavaScript regular expression, matched per line."),
+      literal: z
+        .boolean()
+        .optional()
+        .describe("Match the pattern as plain text."),
+      ignoreCase: z.boolean().optional(),
+      path: z
+        .string()
+        .optional()
+        .describe("Directory to search. Defaults to the project root."),
+      include: walkShape.include,
+      exclude: walkShape.exclude,
+      context: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe("Lines to show around each match."),
+      maxResults: count()
+        .optional()
+        .describe("Matches to return. Defaults to 100."),
+    }),
+    run: (server, { pattern, ...options }) =>
+      server.searchFiles(pattern, options),
+  }),
+  defineTool({
+    name: "apply_patch",
+    description:
+      "Edits existing files without rewriting them. Pass either `patch`, a unified diff with ---/+++ headers and exact context lines, or `path` with `edits`, search/replace pairs whose search text must match the file exactly and uniquely. Nothing is changed if any part fails to match; the error says where.",
+    schema: z
+      .object({
+        patch: z
+          .string()
+          .optional()
+          .describe("Unified diff; may touch several files."),
+        path: z.string().optional().describe("File the edits apply to."),
+        edits: z
+          .array(
+            z.object({
+              search: z.string(),
+              replace: z.string(),
+              replaceAll: z
+                .boolean()
+                .optional()
+                .describe("Replace every occurrence instead of one."),
+            })
+          )
+          .optional()
+          .describe("Applied in order."),
+      })
+      .refine(
+        (args) =>
+          args.patch !== undefined ||
+          (args.path !== undefined && args.edits !== undefined),
+        "Pass either `patch`, or `path` with `edits`"
+      ),
+    run: (server, args) =>
+      args.patch !== undefined
+        ? server.applyPatch(args.patch)
+        : server.replaceInFile(args.path!, args.edits!),
+  }),
+  defineTool({
     name: "write_file",
     description:
-      "Writes or overwrites content to a specified file. Creates the file if it does not exist.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-        content: { type: "string" },
-      },
-      required: ["path", "content"],
-    },
-  },
-  {
+      "Writes or overwrites content to a specified file. Creates the file if it does not exist. Prefer apply_patch for changes to existing files.",
+    schema: z.object({ path: pathArg, content: z.string() }),
+    run: (server, args) => server.writeFile(args.path, args.content),
+  }),
+  defineTool({
+    name: "append_file",
+    description:
+      "Appends content to the end of a specified file. Creates the file if it does not exist.",
+    schema: z.object({ path: pathArg, content: z.string() }),
+    run: (server, args) => server.appendFile(args.path, args.content),
+  }),
+  defineTool({
     name: "move_file",
-    description: "Moves or renames a file or directory.",
-    parameters: {
-      type: "object",
-      properties: {
-        source: { type: "string" },
-        destination: { type: "string" },
-      },
-      required: ["source", "destination"],
-    },
-  },
-  {
+    description:
+      "Moves or renames a file or directory, creating missing parent directories.",
+    schema: z.object({ source: z.string(), destination: z.string() }),
+    run: (server, { source, destination }) =>
+      server.moveFile(source, destination),
+  }),
+  defineTool({
     name: "delete_file",
     description: "Deletes a specified file.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({ path: pathArg }),
+    run: (server, args) => server.deleteFile(args.path),
+  }),
+  defineTool({
     name: "create_directory",
     description:
       "Creates a new directory, including any necessary parent directories.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({ path: pathArg }),
+    run: (server, args) => server.createDirectory(args.path),
+  }),
+  defineTool({
     name: "delete_directory",
     description: "Deletes a directory and all of its contents recursively.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({ path: pathArg }),
+    run: (server, args) => server.deleteDirectory(args.path),
+  }),
+  defineTool({
     name: "list_directory_tree",
     description:
-      "Recursively lists the directory tree structure starting at a given path.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+      "Recursively lists the files under a directory as a tree. Files ignored by .gitignore are skipped; output stops at the limits with a truncation marker.",
+    schema: z.object({ path: pathArg, ...walkShape }),
+    run: (server, { path, ...options }) =>
+      server.listDirectoryTree(path, options),
+  }),
+  defineTool({
     name: "read_directory_files",
     description:
-      "Reads the contents of all files in the given directory (non-recursive).",
-    parameters: {
-      type: "object",
-      properties: {
-        path: { type: "string" },
-      },
-      required: ["path"],
-    },
-  },
-  {
+      "Reads the text files in a directory, keyed by relative path. Ignored and binary files are skipped; reading stops at the limits with a truncation marker.",
+    schema: z.object({
+      path: pathArg,
+      recursive: z
+        .boolean()
+        .optional()
+        .describe("Include subdirectories. Defaults to false."),
+      ...walkShape,
+    }),
+    run: (server, { path, ...options }) =>
+      server.readDirectoryFiles(path, options),
+  }),
+  defineTool({
     name: "get_current_directory",
     description: "Returns the current working directory path.",
-    parameters: {
-      type: "object",
-      properties: {},
-    },
-  },
+    schema: z.object({}),
+    run: (server) => server.getCurrentDirectory(),
+  }),
 ];
 
-// This is only used internally by the AI integration
-export function getToolDefinitions() {
+const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+function toDeclaration(tool: ToolDefinition): ToolDeclaration {
+  const { $schema: _, ...parameters } = z.toJSONSchema(tool.schema, {
+    io: "input",
+  });
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: parameters as ToolDeclaration["parameters"],
+  };
+}
+
+const toolDeclarations = tools.map(toDeclaration);
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return toolsByName.get(name);
+}
+
+// Shared by the AI integration and the stdio MCP server
+export function getToolDefinitions(): ToolDeclaration[] {
   return toolDeclarations;
 }
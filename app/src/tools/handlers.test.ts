@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import MCPClient from "../mcp/client";
+import { createMcpServer } from "../mcp/server";
+import { GftsServer } from "../server";
+import { getToolDefinitions } from "./declarations";
+import {
+  formatToolResult,
+  isToolError,
+  runTool,
+  validateToolArgs,
+  type ToolArgs,
+} from "./handlers";
+
+let repo: string;
+let server: GftsServer;
+
+function git(...args: string[]) {
+  const result = Bun.spawnSync(["git", ...args], { cwd: repo });
+  if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), "gfts-tools-"));
+  git("init", "-q");
+  git("config", "user.email", "test@example.com");
+  git("config", "user.name", "Test");
+  fs.writeFileSync(path.join(repo, "a.txt"), "a\n");
+  fs.mkdirSync(path.join(repo, "docs"));
+  fs.writeFileSync(path.join(repo, "docs", "readme.md"), "# docs\n");
+  git("add", ".");
+  git("commit", "-q", "-m", "init");
+  git("branch", "other");
+  server = new GftsServer(repo);
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+const names = (tools: { name: string }[]) =>
+  tools.map((tool) => tool.name).sort();
+
+/** Valid arguments for every tool, run against the repository above. */
+const samples: Record<string, ToolArgs> = {
+  git_status: {},
+  git_diff: { staged: true },
+  git_log: { maxCount: 1 },
+  git_branch_list: {},
+  git_branch_create: { name: "feature" },
+  git_branch_switch: { name: "other" },
+  git_branch_delete: { name: "other" },
+  git_stash: { action: "list" },
+  git_tag: { action: "create", name: "v1.0.0" },
+  git_add: { paths: ["a.txt"] },
+  git_commit: { message: "amended", amend: true },
+  run_git_command: { command: "status --short" },
+  list_files: { path: "." },
+  read_file: { path: "a.txt" },
+  read_file_range: { path: "a.txt", startLine: 1 },
+  search_files: { pattern: "docs" },
+  apply_patch: { path: "a.txt", edits: [{ search: "a", replace: "b" }] },
+  write_file: { path: "b.txt", content: "b\n" },
+  append_file: { path: "a.txt", content: "more\n" },
+  move_file: { source: "a.txt", destination: "moved/a.txt" },
+  delete_file: { path: "a.txt" },
+  create_directory: { path: "new/dir" },
+  delete_directory: { path: "docs" },
+  list_directory_tree: { path: "." },
+  read_directory_files: { path: "docs" },
+  get_current_directory: {},
+};
+
+describe("tool registry", () => {
+  test("the in-process client offers exactly the declared tools", async () => {
+    const client = new MCPClient(repo);
+    await client.connect();
+    expect(names(client.listTools())).toEqual(names(getToolDefinitions()));
+  });
+
+  test("the MCP server offers exactly the declared tools", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      createMcpServer(repo).connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    const { tools } = await client.listTools();
+    expect(names(tools)).toEqual(names(getToolDefinitions()));
+  });
+
+  test("declarations are plain JSON Schema objects", () => {
+    for (const { parameters } of getToolDefinitions()) {
+      expect(parameters.type).toBe("object");
+      expect(parameters).not.toHaveProperty("$schema");
+    }
+  });
+
+  test("every tool has sample arguments", () => {
+    expect(Object.keys(samples).sort()).toEqual(names(getToolDefinitions()));
+  });
+
+  for (const { name } of getToolDefinitions()) {
+    test(`${name} runs with valid arguments`, async () => {
+      const result = await runTool(server, name, samples[name]);
+      expect(isToolError(result), formatToolResult(result)).toBe(false);
+    });
+  }
+});
+
+describe("runTool", () => {
+  test("rejects missing required arguments", async () => {
+    const result = await runTool(server, "read_file", {});
+    expect(result).toEqual({ error: expect.stringContaining("path") });
+  });
+
+  test("rejects arguments of the wrong type", async () => {
+    const result = await runTool(server, "git_log", { maxCount: "ten" });
+    expect(result).toEqual({
+      error: expect.stringContaining("Invalid arguments for git_log"),
+    });
+  });
+
+  test("rejects apply_patch without a patch or edits", async () => {
+    const result = await runTool(server, "apply_patch", { path: "a.txt" });
+    expect(result).toEqual({
+      error: expect.stringContaining("Pass either `patch`"),
+    });
+  });
+
+  test("rejects unknown tools", async () => {
+    expect(await runTool(server, "no_such_tool", {})).toEqual({
+      error: "Unknown tool: no_such_tool",
+    });
+  });
+});
+
+describe("validateToolArgs", () => {
+  test("drops null arguments the provider left out", () => {
+    expect(
+      validateToolArgs("git_diff", { staged: true, ref: null, paths: null })
+    ).toEqual({ valid: true, args: { staged: true } });
+  });
+});
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import type { GftsServer, ToolResult } from "../server";
+import { findTool } from "./declarations";
+
+export type ToolArgs = Record<string, unknown>;
+
+export type ToolValidation =
+  | { valid: true; args: ToolArgs }
+  | { valid: false; error: string };
+
+/**
+ * Checks a call against the tool's schema. The error is meant for the
+ * model, so it can fix the arguments and call the tool again.
+ */
+export function validateToolArgs(
+  name: string,
+  args: ToolArgs = {}
+): ToolValidation {
+  const tool = findTool(name);
+  if (!tool) return { valid: false, error: `Unknown tool: ${name}` };
+
+  // Some providers send null for optional arguments they leave out.
+  const present = Object.fromEntries(
+    Object.entries(args ?? {}).filter(([, value]) => value !== null)
+  );
+  const parsed = tool.schema.safeParse(present);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid arguments for ${name}:\n${z.prettifyError(parsed.error)}`,
+    };
+  }
+  return { valid: true, args: parsed.data };
+}
+
+/**
+ * Validates the arguments of a declared tool and runs its handler.
+ */
+export async function runTool(
+  server: GftsServer,
+  name: string,
+  args: ToolArgs = {}
+): Promise<ToolResult> {
+  const checked = validateToolArgs(name, args);
+  if (!checked.valid) return { error: checked.error };
+  return findTool(name)!.run(server, checked.args);
+}
+
+/**
+ * GftsServer reports failures as values rather than throwing:
+ * "Error ..." strings, `{ error }` objects or a non-zero git return code.
+ */
+export function isToolError(result: ToolResult): boolean {
+  if (typeof result === "string") return result.startsWith("Error");
+  if ("error" in result) return true;
+  return typeof result.return_code === "number" && result.return_code !== 0;
+}
+
+export function formatToolResult(result: ToolResult): string {
+  return typeof result === "string" ? result : JSON.stringify(result, null, 2);
+}